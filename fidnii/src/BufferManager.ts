@@ -22,6 +22,10 @@ import { getBytesPerPixel, getTypedArrayConstructor } from "./types.js"
  * only supports `DT_RGB24` / `DT_RGBA32` (uint8-per-channel). The raw
  * data is normalized to uint8 externally before being written here.
  *
+ * For 4D (time series) data the buffer holds several consecutive frames
+ * of the same spatial extent; the frame count is another multiplier on
+ * the element count.
+ *
  * Memory reuse strategy:
  * - Reuse buffer if newSize <= currentCapacity
  * - Reallocate if newSize > currentCapacity OR newSize < 25% of currentCapacity
@@ -29,6 +33,7 @@ import { getBytesPerPixel, getTypedArrayConstructor } from "./types.js"
 export class BufferManager {
   private buffer: ArrayBuffer
   private currentDimensions: [number, number, number]
+  private currentFrames: number
   private readonly maxPixels: number
   private readonly TypedArrayCtor: TypedArrayConstructor
   private readonly bytesPerPixel: number
@@ -79,6 +84,7 @@ export class BufferManager {
 
     // Initialize with empty buffer - will be allocated on first resize
     this.currentDimensions = [0, 0, 0]
+    this.currentFrames = 1
     this.buffer = new ArrayBuffer(0)
   }
 
@@ -88,27 +94,36 @@ export class BufferManager {
    * Reuses existing buffer if large enough, otherwise allocates new buffer.
    * Will also reallocate if the buffer is significantly oversized (< 25% utilization).
    *
-   * If dimensions exceed maxPixels, a warning is logged but the buffer is still
-   * allocated. This handles the case where even the lowest resolution exceeds the
-   * pixel budget - we still want to load something rather than failing.
+   * If dimensions exceed the pixel limit, a warning is logged but the buffer is
+   * still allocated. This handles the case where even the lowest resolution
+   * exceeds the pixel budget - we still want to load something rather than
+   * failing.
    *
    * @param dimensions - New dimensions [z, y, x]
+   * @param frames - Number of time frames (default: 1)
+   * @param pixelLimit - Pixel count above which to warn (default: maxPixels).
+   *   Loads with culled chunks allocate a dense box beyond maxPixels.
    * @returns TypedArray view over the (possibly new) buffer
    */
-  resize(dimensions: [number, number, number]): TypedArray {
+  resize(
+    dimensions: [number, number, number],
+    frames: number = 1,
+    pixelLimit: number = this.maxPixels,
+  ): TypedArray {
     const spatialPixels = dimensions[0] * dimensions[1] * dimensions[2]
+    const totalPixels = spatialPixels * frames
 
-    if (spatialPixels > this.maxPixels) {
+    if (totalPixels > pixelLimit) {
       console.warn(
         `[fidnii] BufferManager: Requested dimensions [${dimensions.join(
           ", ",
-        )}] = ${spatialPixels} pixels exceeds maxPixels (${this.maxPixels}). ` +
-          `Proceeding anyway (likely at lowest resolution).`,
+        )}] x ${frames} frame(s) = ${totalPixels} pixels exceeds the limit ` +
+          `(${pixelLimit}). Proceeding anyway (likely at lowest resolution).`,
       )
     }
 
-    // Total elements = spatial pixels × components per voxel
-    const requiredElements = spatialPixels * this.componentsPerVoxel
+    // Total elements = spatial pixels × frames × components per voxel
+    const requiredElements = totalPixels * this.componentsPerVoxel
     const currentCapacityElements = this.buffer.byteLength / this.bytesPerPixel
     const utilizationRatio =
       currentCapacityElements > 0
@@ -124,6 +139,7 @@ export class BufferManager {
     }
 
     this.currentDimensions = [...dimensions]
+    this.currentFrames = frames
     return this.getTypedArray()
   }
 
@@ -137,19 +153,11 @@ export class BufferManager {
   /**
    * Get a typed array view over the current buffer region.
    *
-   * The view is sized to match `spatialPixels × componentsPerVoxel`,
+   * The view is sized to match `spatialPixels × frames × componentsPerVoxel`,
    * not the full buffer capacity.
    */
   getTypedArray(): TypedArray {
-    const spatialPixels =
-      this.currentDimensions[0] *
-      this.currentDimensions[1] *
-      this.currentDimensions[2]
-    return new this.TypedArrayCtor(
-      this.buffer,
-      0,
-      spatialPixels * this.componentsPerVoxel,
-    )
+    return new this.TypedArrayCtor(this.buffer, 0, this.getElementCount())
   }
 
   /**
@@ -159,6 +167,13 @@ export class BufferManager {
     return [...this.currentDimensions]
   }
 
+  /**
+   * Get the number of time frames in the current buffer region.
+   */
+  getFrameCount(): number {
+    return this.currentFrames
+  }
+
   /**
    * Get the total number of spatial pixels in the current buffer region.
    * This does NOT include the component multiplier.
@@ -173,10 +188,10 @@ export class BufferManager {
 
   /**
    * Get the total number of scalar elements in the current buffer region.
-   * For multi-component images, this is `spatialPixels × componentsPerVoxel`.
+   * This is `spatialPixels × frames × componentsPerVoxel`.
    */
   getElementCount(): number {
-    return this.getPixelCount() * this.componentsPerVoxel
+    return this.getPixelCount() * this.currentFrames * this.componentsPerVoxel
   }
 
   /**
@@ -9,6 +9,7 @@ import type {
   ClipPlane,
   ClipPlanes,
   PixelRegion,
+  TypedArray,
   VolumeBounds,
 } from "./types.js"
 import { pixelToWorld, worldToPixel } from "./utils/coordinates.js"
@@ -257,6 +258,66 @@ export function clipPlanesToNiivue(
   return clipPlanes.map((plane) => clipPlaneToNiivue(plane, volumeBounds))
 }
 
+/**
+ * Convert a NiiVue [depth, azimuth, elevation] clip plane back to a
+ * world-space clip plane. Inverse of {@link clipPlaneToNiivue}.
+ *
+ * @param depthAziElev - NiiVue clip plane [depth, azimuth, elevation]
+ * @param volumeBounds - Volume bounds the NiiVue plane is relative to
+ * @returns ClipPlane with its point on the line through the volume center
+ */
+export function niivueToClipPlane(
+  depthAziElev: number[],
+  volumeBounds: VolumeBounds,
+): ClipPlane {
+  const [negatedDepth, azimuth, elevation] = depthAziElev
+
+  // Undo the normal and depth negation of clipPlaneToNiivue
+  const negatedNormal = azimuthElevationToNormal(azimuth, elevation)
+  const normal = normalizeVector([
+    -negatedNormal[0],
+    -negatedNormal[1],
+    -negatedNormal[2],
+  ])
+  const depth = -negatedDepth
+
+  const { min, max } = volumeBounds
+  const extentAlongNormal =
+    Math.abs(normal[0]) * (max[0] - min[0]) +
+    Math.abs(normal[1]) * (max[1] - min[1]) +
+    Math.abs(normal[2]) * (max[2] - min[2])
+  const signedDistance = depth * extentAlongNormal
+
+  return {
+    point: [
+      (min[0] + max[0]) / 2 + normal[0] * signedDistance,
+      (min[1] + max[1]) / 2 + normal[1] * signedDistance,
+      (min[2] + max[2]) / 2 + normal[2] * signedDistance,
+    ],
+    normal,
+  }
+}
+
+/**
+ * Convert NiiVue clip planes back to world-space clip planes.
+ *
+ * Disabled NiiVue planes (depth > 1.8) are skipped, and at most
+ * {@link MAX_CLIP_PLANES} planes are returned.
+ *
+ * @param depthAziElevs - NiiVue clip planes [depth, azimuth, elevation]
+ * @param volumeBounds - Volume bounds the NiiVue planes are relative to
+ * @returns Array of clip planes
+ */
+export function niivueToClipPlanes(
+  depthAziElevs: number[][],
+  volumeBounds: VolumeBounds,
+): ClipPlanes {
+  return depthAziElevs
+    .filter((plane) => plane.length >= 3 && plane[0] <= 1.8)
+    .slice(0, MAX_CLIP_PLANES)
+    .map((plane) => niivueToClipPlane(plane, volumeBounds))
+}
+
 /**
  * Calculate the signed distance from a point to a plane.
  *
@@ -298,6 +359,344 @@ export function isInsideClipPlanes(
   return true
 }
 
+/**
+ * Signed distance to a clip plane as a linear function of the voxel index
+ * of a buffer: `base + z * dz + y * dy + x * dx`.
+ */
+interface LinearPlaneDistance {
+  base: number
+  dz: number
+  dy: number
+  dx: number
+}
+
+/**
+ * Build the linear signed-distance functions of clip planes over a buffer.
+ *
+ * The signed distance to each plane is linear in the voxel index, so it
+ * is stepped per axis instead of converting every voxel to world space.
+ *
+ * @param regionStart - Pixel position of the buffer origin [z, y, x]
+ * @param clipPlanes - Array of clip planes
+ * @param ngffImage - The NgffImage the buffer was fetched from
+ * @returns One distance function per plane
+ */
+function linearPlaneDistances(
+  regionStart: [number, number, number],
+  clipPlanes: ClipPlanes,
+  ngffImage: NgffImage,
+): LinearPlaneDistance[] {
+  const origin = pixelToWorld(regionStart, ngffImage)
+  const step = (axis: 0 | 1 | 2): [number, number, number] => {
+    const next: [number, number, number] = [...regionStart]
+    next[axis] += 1
+    const world = pixelToWorld(next, ngffImage)
+    return [world[0] - origin[0], world[1] - origin[1], world[2] - origin[2]]
+  }
+  const steps = [step(0), step(1), step(2)]
+  const dot = (n: [number, number, number], v: [number, number, number]) =>
+    n[0] * v[0] + n[1] * v[1] + n[2] * v[2]
+
+  return clipPlanes.map((plane) => ({
+    base: pointToPlaneDistance(origin, plane),
+    dz: dot(plane.normal, steps[0]),
+    dy: dot(plane.normal, steps[1]),
+    dx: dot(plane.normal, steps[2]),
+  }))
+}
+
+/**
+ * Call `visit` with the element offset of every voxel of a buffer whose
+ * center lies outside the clip planes.
+ */
+function forEachClippedVoxel(
+  shape: [number, number, number],
+  components: number,
+  regionStart: [number, number, number],
+  clipPlanes: ClipPlanes,
+  ngffImage: NgffImage,
+  visit: (offset: number) => void,
+): void {
+  const planes = linearPlaneDistances(regionStart, clipPlanes, ngffImage)
+  const [sz, sy, sx] = shape
+  let offset = 0
+  for (let z = 0; z < sz; z++) {
+    for (let y = 0; y < sy; y++) {
+      for (let x = 0; x < sx; x++) {
+        for (const p of planes) {
+          if (p.base + z * p.dz + y * p.dy + x * p.dx < 0) {
+            visit(offset)
+            break
+          }
+        }
+        offset += components
+      }
+    }
+  }
+}
+
+/**
+ * Zero every voxel of a buffer that lies outside the clip planes.
+ *
+ * Unlike NiiVue's shader clipping, this supports any number of planes
+ * (a convex polytope). A voxel is kept when its center is inside all
+ * planes (see {@link isInsideClipPlanes}); all components of a clipped
+ * voxel are zeroed, which makes RGBA voxels transparent.
+ *
+ * @param data - Buffer in [z][y][x][component] order
+ * @param shape - Buffer shape [z, y, x]
+ * @param components - Values per voxel
+ * @param regionStart - Pixel position of the buffer origin [z, y, x]
+ * @param clipPlanes - Array of clip planes
+ * @param ngffImage - The NgffImage the buffer was fetched from
+ */
+export function maskOutsideClipPlanes(
+  data: TypedArray,
+  shape: [number, number, number],
+  components: number,
+  regionStart: [number, number, number],
+  clipPlanes: ClipPlanes,
+  ngffImage: NgffImage,
+): void {
+  if (clipPlanes.length === 0) return
+  forEachClippedVoxel(
+    shape,
+    components,
+    regionStart,
+    clipPlanes,
+    ngffImage,
+    (offset) => data.fill(0, offset, offset + components),
+  )
+}
+
+/**
+ * Build a per-voxel mask of a buffer that is 1 where the voxel center is
+ * inside all clip planes (see {@link isInsideClipPlanes}) and 0 elsewhere.
+ *
+ * @param shape - Buffer shape [z, y, x]
+ * @param regionStart - Pixel position of the buffer origin [z, y, x]
+ * @param clipPlanes - Array of clip planes
+ * @param ngffImage - The NgffImage the buffer was fetched from
+ * @returns Mask in [z][y][x] order
+ */
+export function insideClipPlanesMask(
+  shape: [number, number, number],
+  regionStart: [number, number, number],
+  clipPlanes: ClipPlanes,
+  ngffImage: NgffImage,
+): Uint8Array {
+  const mask = new Uint8Array(shape[0] * shape[1] * shape[2]).fill(1)
+  forEachClippedVoxel(shape, 1, regionStart, clipPlanes, ngffImage, (i) => {
+    mask[i] = 0
+  })
+  return mask
+}
+
+/**
+ * Dim every voxel of a buffer that lies outside the clip planes.
+ *
+ * Each component `v` of a clipped voxel becomes
+ * `floor + (v - floor) * factor`, pulling it toward `floor` (typically
+ * the display window start, or 0 for RGB/RGBA). Voxels inside all planes
+ * are left untouched.
+ *
+ * @param data - Buffer in [z][y][x][component] order
+ * @param shape - Buffer shape [z, y, x]
+ * @param components - Values per voxel
+ * @param regionStart - Pixel position of the buffer origin [z, y, x]
+ * @param clipPlanes - Array of clip planes
+ * @param ngffImage - The NgffImage the buffer was fetched from
+ * @param factor - Brightness kept by clipped voxels, in [0, 1]
+ * @param floor - Value clipped voxels are dimmed toward (default: 0)
+ */
+export function dimOutsideClipPlanes(
+  data: TypedArray,
+  shape: [number, number, number],
+  components: number,
+  regionStart: [number, number, number],
+  clipPlanes: ClipPlanes,
+  ngffImage: NgffImage,
+  factor: number,
+  floor: number = 0,
+): void {
+  if (clipPlanes.length === 0) return
+  forEachClippedVoxel(
+    shape,
+    components,
+    regionStart,
+    clipPlanes,
+    ngffImage,
+    (offset) => {
+      for (let c = offset; c < offset + components; c++) {
+        data[c] = floor + (data[c] - floor) * factor
+      }
+    },
+  )
+}
+
+/**
+ * Draw the intersection of each clip plane with a buffer by setting the
+ * voxels the plane passes through to `value`.
+ *
+ * A voxel is on a plane's line when its center is within half a voxel
+ * step of the plane (one voxel thick along the axis the plane crosses
+ * most steeply), so each 2D slice of the buffer shows the plane as a
+ * line.
+ *
+ * @param data - Buffer in [z][y][x][component] order
+ * @param shape - Buffer shape [z, y, x]
+ * @param components - Values per voxel
+ * @param regionStart - Pixel position of the buffer origin [z, y, x]
+ * @param clipPlanes - Array of clip planes
+ * @param ngffImage - The NgffImage the buffer was fetched from
+ * @param value - Value written to every component of line voxels
+ */
+export function drawClipPlaneLines(
+  data: TypedArray,
+  shape: [number, number, number],
+  components: number,
+  regionStart: [number, number, number],
+  clipPlanes: ClipPlanes,
+  ngffImage: NgffImage,
+  value: number,
+): void {
+  if (clipPlanes.length === 0) return
+  const planes = linearPlaneDistances(regionStart, clipPlanes, ngffImage).map(
+    (p) => ({
+      ...p,
+      halfWidth: Math.max(Math.abs(p.dz), Math.abs(p.dy), Math.abs(p.dx)) / 2,
+    }),
+  )
+  const [sz, sy, sx] = shape
+  let offset = 0
+  for (let z = 0; z < sz; z++) {
+    for (let y = 0; y < sy; y++) {
+      for (let x = 0; x < sx; x++) {
+        for (const p of planes) {
+          const d = p.base + z * p.dz + y * p.dy + x * p.dx
+          // Half-open so a plane on a voxel boundary marks one voxel
+          if (d >= -p.halfWidth && d < p.halfWidth) {
+            data.fill(value, offset, offset + components)
+            break
+          }
+        }
+        offset += components
+      }
+    }
+  }
+}
+
+/**
+ * Check if any clip plane is oblique (not aligned with the x, y or z axis).
+ *
+ * Axis-aligned planes are represented exactly by the bounding box of
+ * {@link clipPlanesToBoundingBox}; oblique planes are not.
+ *
+ * @param clipPlanes - Array of clip planes
+ * @returns True if at least one plane is oblique
+ */
+export function hasObliqueClipPlanes(clipPlanes: ClipPlanes): boolean {
+  const tolerance = 0.001
+  return clipPlanes.some((plane) => {
+    const absNx = Math.abs(plane.normal[0])
+    const absNy = Math.abs(plane.normal[1])
+    const absNz = Math.abs(plane.normal[2])
+    const axisAligned =
+      (absNx > 1 - tolerance && absNy < tolerance && absNz < tolerance) ||
+      (absNy > 1 - tolerance && absNx < tolerance && absNz < tolerance) ||
+      (absNz > 1 - tolerance && absNx < tolerance && absNy < tolerance)
+    return !axisAligned
+  })
+}
+
+/**
+ * Check if a pixel region lies entirely on the clipped side of any clip
+ * plane.
+ *
+ * The region is grown by one voxel on each side, so a region is only
+ * reported as clipped when interpolation at the plane never samples it.
+ *
+ * @param region - Pixel region [z, y, x]
+ * @param clipPlanes - Array of clip planes
+ * @param ngffImage - The NgffImage the region belongs to
+ * @returns True if the whole region is clipped away
+ */
+export function isRegionClipped(
+  region: PixelRegion,
+  clipPlanes: ClipPlanes,
+  ngffImage: NgffImage,
+): boolean {
+  const a = pixelToWorld(
+    [region.start[0] - 1, region.start[1] - 1, region.start[2] - 1],
+    ngffImage,
+  )
+  const b = pixelToWorld(region.end, ngffImage)
+
+  // pixelToWorld is separable per axis, so the region maps to a world box
+  const center: [number, number, number] = [
+    (a[0] + b[0]) / 2,
+    (a[1] + b[1]) / 2,
+    (a[2] + b[2]) / 2,
+  ]
+  const halfExtent: [number, number, number] = [
+    Math.abs(b[0] - a[0]) / 2,
+    Math.abs(b[1] - a[1]) / 2,
+    Math.abs(b[2] - a[2]) / 2,
+  ]
+
+  for (const plane of clipPlanes) {
+    // Largest signed distance of any box corner to the plane
+    const { normal } = plane
+    const maxDistance =
+      pointToPlaneDistance(center, plane) +
+      Math.abs(normal[0]) * halfExtent[0] +
+      Math.abs(normal[1]) * halfExtent[1] +
+      Math.abs(normal[2]) * halfExtent[2]
+    if (maxDistance < 0) return true
+  }
+  return false
+}
+
+/**
+ * List the chunks of a chunk-aligned region that are not entirely clipped.
+ *
+ * Used to skip fetching chunks that an oblique clip plane cuts away
+ * completely, which the axis-aligned bounding box cannot exclude.
+ *
+ * @param region - Chunk-aligned pixel region [z, y, x]
+ * @param clipPlanes - Array of clip planes
+ * @param ngffImage - The NgffImage (for chunk shape)
+ * @returns Pixel regions of the surviving chunks, clamped to `region`
+ */
+export function getVisibleChunks(
+  region: PixelRegion,
+  clipPlanes: ClipPlanes,
+  ngffImage: NgffImage,
+): PixelRegion[] {
+  const chunkShape = getChunkShape(ngffImage)
+  const chunks: PixelRegion[] = []
+
+  for (let z = region.start[0]; z < region.end[0]; z += chunkShape[0]) {
+    for (let y = region.start[1]; y < region.end[1]; y += chunkShape[1]) {
+      for (let x = region.start[2]; x < region.end[2]; x += chunkShape[2]) {
+        const chunk: PixelRegion = {
+          start: [z, y, x],
+          end: [
+            Math.min(z + chunkShape[0], region.end[0]),
+            Math.min(y + chunkShape[1], region.end[1]),
+            Math.min(x + chunkShape[2], region.end[2]),
+          ],
+        }
+        if (!isRegionClipped(chunk, clipPlanes, ngffImage)) {
+          chunks.push(chunk)
+        }
+      }
+    }
+  }
+
+  return chunks
+}
+
 /**
  * Calculate the axis-aligned bounding box that contains the clipped region.
  *
@@ -600,12 +999,16 @@ export function createAxisAlignedClipPlane(
  * Validate clip planes array.
  *
  * @param clipPlanes - Array of clip planes to validate
+ * @param maxPlanes - Maximum number of planes (default: {@link MAX_CLIP_PLANES})
  * @throws Error if validation fails
  */
-export function validateClipPlanes(clipPlanes: ClipPlanes): void {
-  if (clipPlanes.length > MAX_CLIP_PLANES) {
+export function validateClipPlanes(
+  clipPlanes: ClipPlanes,
+  maxPlanes: number = MAX_CLIP_PLANES,
+): void {
+  if (clipPlanes.length > maxPlanes) {
     throw new Error(
-      `Too many clip planes: ${clipPlanes.length} exceeds maximum of ${MAX_CLIP_PLANES}`,
+      `Too many clip planes: ${clipPlanes.length} exceeds maximum of ${maxPlanes}`,
     )
   }
 
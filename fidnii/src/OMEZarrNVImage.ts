@@ -1,27 +1,48 @@
 // SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
 // SPDX-License-Identifier: MIT
 
-import type { Multiscales, NgffImage, Omero } from "@fideus-labs/ngff-zarr"
+import type {
+  Multiscales,
+  NgffImage,
+  Omero,
+  OmeroChannel,
+  OmeroWindow,
+} from "@fideus-labs/ngff-zarr"
 import { Methods } from "@fideus-labs/ngff-zarr"
 import {
   computeOmeroFromNgffImage,
   GLASBEY_COLORS,
+  getDefaultColors,
 } from "@fideus-labs/ngff-zarr/browser"
 import type { Niivue } from "@niivue/niivue"
 import { NVImage, SLICE_TYPE } from "@niivue/niivue"
+import type { mat4 } from "gl-matrix"
 import { LRUCache } from "lru-cache"
-import { NIFTI1 } from "nifti-reader-js"
+import { NIFTI1, type NIFTI2 } from "nifti-reader-js"
 
 import { BufferManager } from "./BufferManager.js"
 import {
   alignToChunks,
   clipPlanesToNiivue,
   clipPlanesToPixelRegion,
+  createAxisAlignedClipPlane,
   createDefaultClipPlanes,
+  dimOutsideClipPlanes,
+  drawClipPlaneLines,
+  getVisibleChunks,
+  hasObliqueClipPlanes,
   MAX_CLIP_PLANES,
+  maskOutsideClipPlanes,
+  niivueToClipPlanes,
   normalizeVector,
+  pointToPlaneDistance,
   validateClipPlanes,
 } from "./ClipPlanes.js"
+import type {
+  ComputeStatisticsOptions,
+  RegionStatistics,
+} from "./computeStatistics.js"
+import { computeStatistics } from "./computeStatistics.js"
 import {
   OMEZarrNVImageEvent,
   type OMEZarrNVImageEventListener,
@@ -29,32 +50,62 @@ import {
   type OMEZarrNVImageEventMap,
   type PopulateTrigger,
 } from "./events.js"
-import type { ChannelWindow } from "./normalize.js"
-import { computeChannelMinMax, normalizeToUint8 } from "./normalize.js"
+import type { ExportRegionOptions } from "./exportRegion.js"
+import { exportRegion } from "./exportRegion.js"
+import {
+  getLabelProperties,
+  openLabelMultiscales,
+  parseImageLabelMetadata,
+  readImageLabelMetadata,
+} from "./labels.js"
+import type { ChannelWindow, CompositeChannel } from "./normalize.js"
+import {
+  compositeToRGBA,
+  computeChannelMinMax,
+  normalizeToUint8,
+  parseHexColor,
+} from "./normalize.js"
 import { RegionCoalescer } from "./RegionCoalescer.js"
 import type { OrthogonalAxis } from "./ResolutionSelector.js"
 import {
   getChunkShape,
   getVolumeShape,
+  MAX_CULLED_BUFFER_FACTOR,
   select2DResolution,
   selectResolution,
 } from "./ResolutionSelector.js"
+import type { LineProfile, SampleLineOptions } from "./sampleLine.js"
+import { sampleLine } from "./sampleLine.js"
 import type {
   AttachedNiivueState,
   CachedTimeFrame,
   ChannelInfo,
   ChunkAlignedRegion,
   ChunkCache,
+  ChunkCulling,
   ClipPlane,
+  ClipPlaneAnimationOptions,
+  ClipPlaneEasing,
   ClipPlanes,
+  ImageLabelMetadata,
+  LabelInfo,
+  LabelPick,
+  LoadedRegion,
+  NiftiExportOptions,
   OMEZarrNVImageOptions,
   PixelRegion,
+  PlaybackDirection,
+  PlaybackOptions,
   SlabBufferState,
+  SlabClipDisplay,
   SlabSliceType,
   TimeAxisInfo,
+  TimeCourseOptions,
   TimeUnit,
   TypedArray,
+  ValueAtWorldOptions,
   VolumeBounds,
+  WindowStrategy,
   ZarrDtype,
 } from "./types.js"
 import {
@@ -62,7 +113,7 @@ import {
   getChannelInfo,
   getNiftiDataType,
   getRGBNiftiDataType,
-  isRGBImage,
+  isCompositeImage,
   NiftiDataType,
   needsRGBNormalization,
   parseZarritaDtype,
@@ -73,7 +124,7 @@ import {
   createAffineFromNgffImage,
   createAffineFromOMEZarr,
 } from "./utils/affine.js"
-import { worldToPixelAffine } from "./utils/coordinates.js"
+import { pixelToWorldAffine, worldToPixelAffine } from "./utils/coordinates.js"
 import { getOrientationMapping } from "./utils/orientation.js"
 import {
   boundsApproxEqual,
@@ -90,6 +141,7 @@ const DEFAULT_MAX_CACHE_ENTRIES = 200
  * Features:
  * - Progressive loading: quick preview from lowest resolution, then target resolution
  * - Arbitrary clip planes defined by point + normal (up to 6)
+ * - RGB/RGBA display and additive composites of multi-channel images
  * - Dynamic buffer sizing to match fetched data exactly (no upsampling)
  * - Request coalescing for efficient chunk fetching
  * - Automatic metadata updates to reflect OME-Zarr coordinate transforms
@@ -110,6 +162,26 @@ export class OMEZarrNVImage extends NVImage {
    */
   readonly isLabelImage: boolean
 
+  /**
+   * Names and colors of label values from the NGFF `image-label`
+   * metadata of a label image (empty for other images, or when the
+   * metadata is absent).
+   */
+  get labelInfo(): ReadonlyMap<number, LabelInfo> {
+    return this._labelInfo
+  }
+
+  /**
+   * RGBA colors assigned to label values of a label image so far.
+   *
+   * The map is seeded from the lowest resolution level and extended as
+   * new label values are loaded, so a label keeps its color across
+   * resolution levels, regions and slab views.
+   */
+  get labelColors(): ReadonlyMap<number, [number, number, number, number]> {
+    return this._labelColors
+  }
+
   // ============================================================
   // Colormap Override
   // ============================================================
@@ -140,7 +212,7 @@ export class OMEZarrNVImage extends NVImage {
   private readonly niivue: Niivue
 
   /** Buffer manager for dynamically-sized pixel data */
-  private readonly bufferManager: BufferManager
+  private bufferManager: BufferManager
 
   /** Region coalescer for efficient chunk fetching */
   private readonly coalescer: RegionCoalescer
@@ -166,10 +238,23 @@ export class OMEZarrNVImage extends NVImage {
   /**
    * Channel dimension info, or `null` for scalar (single-component) images.
    * When non-null, the image has a `"c"` dimension and is treated as
-   * multi-component (RGB/RGBA) data.
+   * multi-component (RGB/RGBA or composite) data.
    */
   private readonly _channelInfo: ChannelInfo | null
 
+  /**
+   * Whether all channels are blended into an RGBA composite (see
+   * {@link OMEZarrNVImageOptions.composite}). Only takes effect while no
+   * single channel is selected.
+   */
+  private readonly _composite: boolean
+
+  /**
+   * Channel index fetched from the `"c"` axis, or `null` to fetch all
+   * channels (see {@link OMEZarrNVImageOptions.channel}).
+   */
+  private _channelIndex: number | null = null
+
   /**
    * Whether the image is 2D (no `"z"` dimension).
    */
@@ -181,17 +266,6 @@ export class OMEZarrNVImage extends NVImage {
    */
   private readonly _flipY2D: boolean
 
-  /**
-   * Whether the y-flip for 2D images should be applied in the pixel
-   * data rather than the NIfTI affine.
-   *
-   * NiiVue uses a fast Texture2D code path for RGBA 2D images that
-   * bypasses the orient shader entirely, so affine-based y-flips have
-   * no visual effect. For these images we reverse the row order in the
-   * buffer instead.
-   */
-  private readonly _flipY2DInData: boolean
-
   /** Full volume bounds in world space */
   private readonly _volumeBounds: VolumeBounds
 
@@ -204,9 +278,27 @@ export class OMEZarrNVImage extends NVImage {
   /** Debounce delay for clip plane updates (ms) */
   private readonly clipPlaneDebounceMs: number
 
+  /** Whether clip planes are applied by masking voxels on the CPU */
+  private readonly _maskClipPlanes: boolean
+
+  /** How slab views show voxels outside the clip planes */
+  private readonly _slabClipDisplay: SlabClipDisplay
+
+  /** Whether clip plane intersection lines are drawn in slab views */
+  private readonly _slabClipLines: boolean
+
   /** Timeout handle for debounced clip plane refetch */
   private clipPlaneRefetchTimeout: ReturnType<typeof setTimeout> | null = null
 
+  /**
+   * Crop box the current clip planes were built from by `setClipBox()`,
+   * or `null` when the planes were set otherwise.
+   */
+  private _clipBox: VolumeBounds | null = null
+
+  /** AbortController of the running clip plane animation, if any */
+  private _clipPlaneAnimation: AbortController | null = null
+
   /** Previous clip planes state for direction comparison */
   private _previousClipPlanes: ClipPlanes = []
 
@@ -222,6 +314,76 @@ export class OMEZarrNVImage extends NVImage {
   /** Resolution level at which OMERO was last computed (to track recomputation) */
   private _omeroComputedForLevel: number = -1
 
+  /**
+   * Whether `_omero` has been edited through the channel display API.
+   * Edited settings are never replaced by recomputed OMERO metadata.
+   */
+  private _omeroEdited: boolean = false
+
+  /**
+   * Channels whose window was set explicitly with `setChannelWindow()`.
+   * While such a channel is active, its display range is used as-is
+   * instead of being widened to the data extremes.
+   */
+  private readonly _editedWindows = new Set<number>()
+
+  /** How channel display windows are chosen */
+  private readonly _windowStrategy: WindowStrategy
+
+  /** Percentiles of the `"percentile"` window strategy */
+  private readonly _windowPercentiles: [number, number]
+
+  /** Window of the `"fixed"` window strategy */
+  private readonly _fixedWindow: [number, number] | undefined
+
+  /** Whether the display window is never widened to the data range */
+  private readonly _lockWindow: boolean
+
+  /** Pending OMERO metadata of a non-`"omero"` window strategy */
+  private _strategyOmero: Promise<Omero> | null = null
+
+  /** NGFF `image-label` metadata of a label image */
+  private _imageLabel: ImageLabelMetadata | undefined
+
+  /** Label names and colors from `image-label` metadata */
+  private _labelInfo: Map<number, LabelInfo>
+
+  /** Persistent label value → RGBA colors (see {@link labelColors}) */
+  private readonly _labelColors = new Map<
+    number,
+    [number, number, number, number]
+  >()
+
+  /** Pending seeding of {@link _labelColors} from the lowest level */
+  private _labelColorSeed: Promise<void> | null = null
+
+  /** Next Glasbey palette entry for labels without a metadata color */
+  private _nextGlasbeyIndex = 0
+
+  /** Label values hidden with {@link setLabelVisibility} */
+  private readonly _hiddenLabels = new Set<number>()
+
+  /** Only label values shown, set by {@link isolateLabels} */
+  private _isolatedLabels: Set<number> | null = null
+
+  /** Per-label opacity (0–1) set by {@link setLabelOpacity} */
+  private readonly _labelOpacity = new Map<number, number>()
+
+  /** Label values in the colormap of each label NVImage (3D and slabs) */
+  private readonly _colormapLabels = new WeakMap<NVImage, number[]>()
+
+  /** Label overlays loaded in sync with this image */
+  private readonly _labelOverlays: OMEZarrNVImage[] = []
+
+  /** The image this label overlay follows, if it is one */
+  private _overlayParent: OMEZarrNVImage | null = null
+
+  /** AbortController of this overlay's latest load (see `_loadAsOverlay`) */
+  private _overlayAbortController: AbortController | null = null
+
+  /** This overlay's latest load, settled once it finishes or aborts */
+  private _overlayLoad: Promise<void> = Promise.resolve()
+
   /** Internal EventTarget for event dispatching (composition pattern) */
   private readonly _eventTarget = new EventTarget()
 
@@ -296,32 +458,79 @@ export class OMEZarrNVImage extends NVImage {
   /** Current time index (0-based). Always 0 for non-time datasets. */
   private _timeIndex: number = 0
 
+  /** Time index of the data in the 3D buffer (`null` before the first load) */
+  private _loadedTimeIndex: number | null = null
+
+  /**
+   * Inclusive `[t0, t1]` time range loaded as one 4D volume, or `null` to
+   * load a single time point at a time (see
+   * {@link OMEZarrNVImageOptions.timeRange}).
+   */
+  private readonly _timeRange4D: [number, number] | null = null
+
   /** Number of adjacent time frames to pre-fetch in each direction. */
   private readonly _timePrefetchCount: number
 
   /**
-   * LRU cache of pre-fetched 3D time frames, keyed by time index.
-   * Only used when `_timeAxisInfo` is non-null.
+   * Byte-bounded LRU cache of loaded and pre-fetched time frames of the 3D
+   * volume and the slabs, keyed by resolution level, region and time index
+   * (see {@link _timeFrameKey}). Only used when `_timeAxisInfo` is non-null;
+   * `null` when disabled with `timeFrameCacheBytes: 0`.
    */
-  private readonly _timeFrameCache: LRUCache<number, CachedTimeFrame>
+  private readonly _timeFrameCache: LRUCache<string, CachedTimeFrame> | null
 
-  /** Set of time indices currently being pre-fetched (for dedup). */
-  private readonly _prefetchingTimeIndices: Set<number> = new Set()
+  /** Cache keys of time frames currently being pre-fetched (for dedup). */
+  private readonly _prefetchingTimeFrames: Set<string> = new Set()
 
-  /** AbortController for the most recent pre-fetch batch. */
+  /** AbortController for the most recent 3D pre-fetch batch. */
   private _prefetchAbortController: AbortController | null = null
 
+  /** Per-slab AbortController for the most recent slab pre-fetch batch. */
+  private _slabPrefetchAbortControllers: Map<SlabSliceType, AbortController> =
+    new Map()
+
+  /**
+   * Region and resolution level of the last load of each slab, used to
+   * pre-fetch time frames of the slab's current `slabStart`/`slabEnd` window.
+   */
+  private _lastLoadedSlabRegions: Map<SlabSliceType, LoadedRegion> = new Map()
+
   /**
    * Snapshot of the chunk-aligned region and resolution level used for
-   * the last successful 3D volume load. Used to serve cached time frames
-   * at the same spatial region. Cleared on clip plane / viewport / resolution
-   * changes.
+   * the last successful 3D volume load. Describes the volume currently
+   * displayed, so it is kept until the next load replaces it.
+   */
+  private _lastLoadedRegion: LoadedRegion | null = null
+
+  /**
+   * Region that time frames are pre-fetched and served from the cache at.
+   * Set with {@link _lastLoadedRegion} on every 3D load, but cleared on
+   * clip plane / viewport / resolution changes so no frame of the old
+   * region is fetched or shown while the new region is loading.
    */
-  private _lastLoadedRegion: {
-    region: ChunkAlignedRegion
-    levelIndex: number
+  private _prefetchRegion: LoadedRegion | null = null
+
+  /**
+   * State of the running time-lapse playback, or `null` when not playing.
+   * Aborting the controller ends the playback loop.
+   */
+  private _playback: {
+    abortController: AbortController
+    range: [number, number]
+    framesShown: number
+    droppedFrames: number
   } | null = null
 
+  // ============================================================
+  // Voxel Value Probe
+  // ============================================================
+
+  /** Timeout handle for the debounced `voxelValue` probe */
+  private _voxelValueTimeout: ReturnType<typeof setTimeout> | null = null
+
+  /** Aborts the in-flight `voxelValue` probe when the crosshair moves on */
+  private _voxelValueAbortController: AbortController | null = null
+
   // ============================================================
   // 3D Zoom Override
   // ============================================================
@@ -342,6 +551,27 @@ export class OMEZarrNVImage extends NVImage {
   /** Default number of adjacent time frames to pre-fetch. */
   private static readonly DEFAULT_TIME_PREFETCH_COUNT = 2
 
+  /** Default memory budget of the time frame cache (bytes). */
+  private static readonly DEFAULT_TIME_FRAME_CACHE_BYTES = 256 * 1024 * 1024
+
+  /** Default time-lapse playback frame rate (frames per second). */
+  private static readonly DEFAULT_PLAYBACK_FPS = 10
+
+  /** Time points fetched concurrently by `getTimeCourse()`. */
+  private static readonly TIME_COURSE_CONCURRENCY = 8
+
+  /** Debounce delay of the `voxelValue` crosshair probe (ms). */
+  private static readonly VOXEL_VALUE_DEBOUNCE_MS = 150
+
+  /** Default percentiles of the `"percentile"` window strategy. */
+  private static readonly DEFAULT_WINDOW_PERCENTILES: [number, number] = [2, 98]
+
+  /** Histogram bins used to estimate window percentiles. */
+  private static readonly WINDOW_HISTOGRAM_BINS = 1024
+
+  /** Brightness kept by clipped voxels with `slabClipDisplay: "dim"` */
+  private static readonly SLAB_CLIP_DIM_FACTOR = 0.3
+
   /**
    * Private constructor. Use OMEZarrNVImage.create() for instantiation.
    */
@@ -351,9 +581,36 @@ export class OMEZarrNVImage extends NVImage {
 
     this.multiscales = options.multiscales
     this.maxPixels = options.maxPixels ?? DEFAULT_MAX_PIXELS
-    this.isLabelImage = this.multiscales.method === Methods.ITKWASM_LABEL_IMAGE
+    this.isLabelImage =
+      options.labelImage ??
+      this.multiscales.method === Methods.ITKWASM_LABEL_IMAGE
     this.niivue = options.niivue
     this.clipPlaneDebounceMs = options.clipPlaneDebounceMs ?? 300
+    this._maskClipPlanes = options.maskClipPlanes ?? false
+    this._slabClipDisplay = options.slabClipDisplay ?? "none"
+    this._slabClipLines = options.slabClipLines ?? false
+
+    this._windowStrategy = options.windowStrategy ?? "omero"
+    this._windowPercentiles =
+      options.windowPercentiles ?? OMEZarrNVImage.DEFAULT_WINDOW_PERCENTILES
+    const [low, high] = this._windowPercentiles
+    if (!(low >= 0 && low < high && high <= 100)) {
+      throw new Error(
+        `Invalid window percentiles [${low}, ${high}] (need 0 <= low < high <= 100)`,
+      )
+    }
+    this._fixedWindow = options.fixedWindow
+    if (
+      this._windowStrategy === "fixed" &&
+      !(this._fixedWindow && this._fixedWindow[0] < this._fixedWindow[1])
+    ) {
+      throw new Error(
+        'windowStrategy "fixed" requires a fixedWindow [start, end] with start < end',
+      )
+    }
+    this._lockWindow = options.lockWindow ?? this._windowStrategy === "fixed"
+    this._imageLabel = options.imageLabel
+    this._labelInfo = parseImageLabelMetadata(options.imageLabel)
 
     // Initialize chunk cache: user-provided > LRU(maxCacheEntries) > disabled
     const maxEntries = options.maxCacheEntries ?? DEFAULT_MAX_CACHE_ENTRIES
@@ -378,26 +635,24 @@ export class OMEZarrNVImage extends NVImage {
     // Detect channel (component) dimension for multi-component images
     this._channelInfo = getChannelInfo(highResImage)
 
-    // Validate multi-component images: only RGB (3) / RGBA (4) are supported
-    if (this._channelInfo && !isRGBImage(highResImage)) {
-      throw new Error(
-        `Unsupported multi-component image: found ${this._channelInfo.components} ` +
-          `components with dtype '${this.dtype}'. Only RGB (3 components) ` +
-          `and RGBA (4 components) images are supported. For other ` +
-          `multi-component images, select a single component before loading.`,
-      )
+    // Multi-channel images that are not RGB/RGBA are composited by default
+    this._composite =
+      this._channelInfo !== null &&
+      (options.composite ?? isCompositeImage(highResImage))
+
+    // A selected channel is loaded on its own as a scalar volume
+    if (options.channel !== undefined) {
+      this._validateChannelIndex(options.channel)
+      this._channelIndex = options.channel
+      this._activeChannel = options.channel
     }
 
+    if (this._channelIndex === null) this._assertAllChannelsDisplayable()
+
     // Detect 2D images (no z axis) and store y-flip preference
     this._is2D = highResImage.dims.indexOf("z") === -1
     this._flipY2D = options.flipY2D ?? true
 
-    // NiiVue uses a Texture2D fast path for RGBA 2D images that
-    // bypasses the orient shader. Affine-based y-flips have no
-    // visual effect in that path, so we flip the pixel data instead.
-    this._flipY2DInData =
-      this._flipY2D && this._is2D && this._channelInfo !== null
-
     // Detect time dimension from the zarr axes
     const tDimIndex = highResImage.dims.indexOf("t")
     if (tDimIndex !== -1) {
@@ -425,11 +680,52 @@ export class OMEZarrNVImage extends NVImage {
       ? Math.max(0, Math.min(defaultTimeIndex, this._timeAxisInfo.count - 1))
       : 0
 
-    // Time frame cache: capacity = current frame + both directions + small buffer
-    const cacheCapacity = 2 * this._timePrefetchCount + 3
-    this._timeFrameCache = new LRUCache<number, CachedTimeFrame>({
-      max: cacheCapacity,
-    })
+    // Opt-in 4D mode: load a range of time points into one NVImage
+    if (options.timeRange) {
+      const [t0, t1] = options.timeRange
+      if (!this._timeAxisInfo) {
+        throw new Error(
+          "Cannot load a time range: dataset has no time dimension",
+        )
+      }
+      const count = this._timeAxisInfo.count
+      if (
+        !Number.isInteger(t0) ||
+        !Number.isInteger(t1) ||
+        t0 < 0 ||
+        t1 >= count ||
+        t0 > t1
+      ) {
+        throw new Error(
+          `Invalid time range [${t0}, ${t1}] (have ${count} time points)`,
+        )
+      }
+      if (this._outputComponents !== 1) {
+        throw new Error(
+          "4D time ranges are only supported for scalar data. Select a " +
+            "single channel with the 'channel' option.",
+        )
+      }
+      this._timeRange4D = [t0, t1]
+      this._timeIndex = Math.max(t0, Math.min(this._timeIndex, t1))
+    }
+
+    // Time frame cache: bounded by the raw frame data size in bytes
+    const timeFrameCacheBytes =
+      options.timeFrameCacheBytes ??
+      OMEZarrNVImage.DEFAULT_TIME_FRAME_CACHE_BYTES
+    if (!Number.isInteger(timeFrameCacheBytes) || timeFrameCacheBytes < 0) {
+      throw new Error(
+        `Invalid timeFrameCacheBytes: ${timeFrameCacheBytes} (expected a non-negative integer)`,
+      )
+    }
+    this._timeFrameCache =
+      timeFrameCacheBytes > 0
+        ? new LRUCache<string, CachedTimeFrame>({
+            maxSize: timeFrameCacheBytes,
+            sizeCalculation: (frame) => this._timeFrameByteSize(frame),
+          })
+        : null
 
     // Calculate volume bounds from highest resolution for most accurate bounds.
     // Use the unadjusted affine (no orientation signs) because volume bounds
@@ -451,6 +747,8 @@ export class OMEZarrNVImage extends NVImage {
       this.maxPixels,
       this._clipPlanes,
       this._volumeBounds,
+      undefined,
+      this._framesPerLoad,
     )
     this.targetLevelIndex = selection.levelIndex
     this.currentLevelIndex = this.multiscales.images.length - 1
@@ -458,12 +756,7 @@ export class OMEZarrNVImage extends NVImage {
     // Create buffer manager (dynamic sizing, no pre-allocation).
     // For multi-component images, each spatial voxel has multiple
     // scalar elements (e.g. 3 for RGB, 4 for RGBA).
-    const componentsPerVoxel = this._channelInfo?.components ?? 1
-    this.bufferManager = new BufferManager(
-      this.maxPixels,
-      this.dtype,
-      componentsPerVoxel,
-    )
+    this.bufferManager = this._createBufferManager()
 
     // Initialize NVImage properties with placeholder values
     // Actual values will be set when data is first loaded
@@ -486,6 +779,12 @@ export class OMEZarrNVImage extends NVImage {
   static async create(options: OMEZarrNVImageOptions): Promise<OMEZarrNVImage> {
     const image = new OMEZarrNVImage(options)
 
+    // Label names and colors are stored next to the multiscales metadata
+    if (image.isLabelImage && !options.imageLabel) {
+      image._imageLabel = await readImageLabelMetadata(image.multiscales)
+      image._labelInfo = parseImageLabelMetadata(image._imageLabel)
+    }
+
     // Listen for clip plane changes via the browser-native event API
     const clipPlaneController = new AbortController()
     image._clipPlaneAbortController = clipPlaneController
@@ -534,14 +833,7 @@ export class OMEZarrNVImage extends NVImage {
 
     // Set data type — use RGB24/RGBA32 for multi-component images
     // (any dtype; non-uint8 data is normalized to uint8 at load time)
-    if (this._channelInfo && isRGBImage(this.multiscales.images[0])) {
-      const rgbCode = getRGBNiftiDataType(this._channelInfo)
-      hdr.datatypeCode = rgbCode
-      hdr.numBitsPerVoxel = rgbCode === NiftiDataType.RGB24 ? 24 : 32
-    } else {
-      hdr.datatypeCode = getNiftiDataType(this.dtype)
-      hdr.numBitsPerVoxel = getBytesPerPixel(this.dtype) * 8
-    }
+    this._setHeaderDatatype(hdr)
 
     // Placeholder pixel dimensions
     hdr.pixDims = [1, 1, 1, 1, 0, 0, 0, 0]
@@ -584,6 +876,89 @@ export class OMEZarrNVImage extends NVImage {
     this._opacity = 1.0
   }
 
+  /**
+   * Whether all channels of a multi-component image are loaded together
+   * (RGB/RGBA or composite). `false` for scalar images and while a single
+   * channel is selected.
+   */
+  private get _isMultiComponent(): boolean {
+    return this._channelInfo !== null && this._channelIndex === null
+  }
+
+  /**
+   * Whether the channels are blended into an RGBA composite. When `true`,
+   * the output buffers hold uint8 RGBA regardless of the source dtype.
+   */
+  private get _isComposite(): boolean {
+    return this._composite && this._channelIndex === null
+  }
+
+  /**
+   * Whether the y-flip for 2D images should be applied in the pixel
+   * data rather than the NIfTI affine.
+   *
+   * NiiVue uses a fast Texture2D code path for RGBA 2D images that
+   * bypasses the orient shader entirely, so affine-based y-flips have
+   * no visual effect. For these images we reverse the row order in the
+   * buffer instead.
+   */
+  private get _flipY2DInData(): boolean {
+    return this._flipY2D && this._is2D && this._isMultiComponent
+  }
+
+  /**
+   * Number of time frames held by each load: the length of the 4D time
+   * range, or 1.
+   */
+  private get _framesPerLoad(): number {
+    if (!this._timeRange4D) return 1
+    return this._timeRange4D[1] - this._timeRange4D[0] + 1
+  }
+
+  /**
+   * Number of scalar elements per voxel in the NiiVue output buffers.
+   *
+   * 4 for composites (RGBA), the channel count for RGB/RGBA, 1 for scalar
+   * images and single selected channels.
+   */
+  private get _outputComponents(): number {
+    if (this._isComposite) return 4
+    if (!this._isMultiComponent) return 1
+    return this._channelInfo?.components ?? 1
+  }
+
+  /**
+   * Create a buffer manager sized for the NiiVue output pixel format.
+   * Composites are always stored as uint8 RGBA.
+   */
+  private _createBufferManager(): BufferManager {
+    return new BufferManager(
+      this.maxPixels,
+      this._isComposite ? "uint8" : this.dtype,
+      this._outputComponents,
+    )
+  }
+
+  /**
+   * Set the NIfTI datatype code and bits per voxel for the output format.
+   *
+   * Composites use RGBA32, RGB/RGBA images use RGB24/RGBA32, and scalar
+   * images use the NIfTI code matching the zarr dtype.
+   */
+  private _setHeaderDatatype(hdr: NIFTI1 | NIFTI2): void {
+    if (this._isComposite) {
+      hdr.datatypeCode = NiftiDataType.RGBA32
+      hdr.numBitsPerVoxel = 32
+    } else if (this._channelInfo && this._isMultiComponent) {
+      const rgbCode = getRGBNiftiDataType(this._channelInfo)
+      hdr.datatypeCode = rgbCode
+      hdr.numBitsPerVoxel = rgbCode === NiftiDataType.RGB24 ? 24 : 32
+    } else {
+      hdr.datatypeCode = getNiftiDataType(this.dtype)
+      hdr.numBitsPerVoxel = getBytesPerPixel(this.dtype) * 8
+    }
+  }
+
   /**
    * Populate the volume with data.
    *
@@ -748,15 +1123,7 @@ export class OMEZarrNVImage extends NVImage {
     })
 
     const ngffImage = this.multiscales.images[levelIndex]
-
-    // Get the pixel region for current clip planes (+ 3D viewport bounds if active)
-    const pixelRegion = clipPlanesToPixelRegion(
-      this._clipPlanes,
-      this._volumeBounds,
-      ngffImage,
-      this._viewportBounds3D ?? undefined,
-    )
-    const alignedRegion = alignToChunks(pixelRegion, ngffImage)
+    const alignedRegion = this._get3DRegion(ngffImage)
 
     // Calculate the shape of data to fetch
     const fetchedShape: [number, number, number] = [
@@ -770,73 +1137,48 @@ export class OMEZarrNVImage extends NVImage {
       start: alignedRegion.chunkAlignedStart,
       end: alignedRegion.chunkAlignedEnd,
     }
+    const culling = this._getChunkCulling(ngffImage, fetchRegion)
 
-    const result = await this.coalescer.fetchRegion(
+    // For composites and non-uint8 RGB/RGBA, we need OMERO metadata
+    // *before* copying so we can window the raw data to uint8.
+    const windowed = this._usesChannelWindows(ngffImage)
+    if (windowed && !this.isLabelImage) {
+      await this.ensureOmeroMetadata(ngffImage, levelIndex)
+    }
+
+    // Fetch and resize buffer to match fetched data exactly (no upsampling!)
+    const data = await this._fetchIntoBuffer(
+      this.bufferManager,
       ngffImage,
       levelIndex,
       fetchRegion,
+      fetchedShape,
       requesterId,
       effectiveTimeIndex,
       signal,
+      alignedRegion,
+      culling ?? undefined,
     )
 
-    // Resize buffer to match fetched data exactly (no upsampling!)
-    const targetData = this.bufferManager.resize(fetchedShape)
-
-    // For non-uint8 RGB/RGBA, we need OMERO metadata *before* copying
-    // so we can normalize the raw data to uint8 using channel windows.
-    const normalize = needsRGBNormalization(ngffImage, this.dtype)
-    if (normalize && !this.isLabelImage) {
-      await this.ensureOmeroMetadata(ngffImage, levelIndex)
-    }
-
-    if (normalize && this._channelInfo) {
-      // Non-uint8 RGB/RGBA: normalize raw data to uint8 using OMERO windows
-      const windows = this._getChannelWindows(
-        result.data,
-        this._channelInfo.components,
-      )
-      const normalized = normalizeToUint8(
-        result.data,
-        this._channelInfo.components,
-        windows,
-      )
-      targetData.set(normalized)
-    } else {
-      // uint8 RGB or scalar: direct copy
-      targetData.set(result.data)
-    }
-
-    // For RGBA 2D images, reverse the row order so the top-to-bottom
-    // pixel data matches WebGL's bottom-to-top texture convention.
-    // NiiVue's Texture2D fast path for RGBA 2D images skips the orient
-    // shader, so the affine-based y-flip has no effect on rendering.
-    if (this._flipY2DInData) {
-      const components = this._channelInfo?.components ?? 1
-      this._flipRowsInPlace(
-        targetData,
-        fetchedShape[2], // x dimension (width)
-        fetchedShape[1], // y dimension (height)
-        components * this.bufferManager.getBytesPerPixel(),
-      )
-    }
-
     // Update this.img to point to the (possibly new) buffer
     this.img = this.bufferManager.getTypedArray() as NVImage["img"]
+    this._loadedTimeIndex = effectiveTimeIndex
 
     // Update NVImage header with correct dimensions and transforms
     this.updateHeaderForRegion(ngffImage, alignedRegion, fetchedShape)
 
     // Snapshot the loaded region so time frame pre-fetch uses the same
     // spatial region / resolution level.
-    this._lastLoadedRegion = { region: alignedRegion, levelIndex }
+    this._lastLoadedRegion = { region: alignedRegion, levelIndex, culling }
+    this._prefetchRegion = this._lastLoadedRegion
 
     if (this.isLabelImage) {
       // Label images: apply a discrete colormap instead of OMERO windowing
-      this._applyLabelColormap(this, result.data)
-    } else if (!normalize) {
+      await this._ensureLabelColorsSeeded(effectiveTimeIndex, signal)
+      this._applyLabelColormap(this, data)
+    } else if (!windowed) {
       // Scalar / uint8 RGB: compute or apply OMERO for cal_min/cal_max.
-      // (Normalized RGB already consumed the OMERO window above.)
+      // (Composites and normalized RGB consumed the OMERO window above.)
       await this.ensureOmeroMetadata(ngffImage, levelIndex)
     }
 
@@ -847,12 +1189,22 @@ export class OMEZarrNVImage extends NVImage {
     // at stale values (typically 0/0), causing an all-white render.
     this.global_min = undefined
 
-    // Update NiiVue clip planes
-    this.updateNiivueClipPlanes()
+    // Update NiiVue clip planes (an overlay shares its parent's planes)
+    if (!this._overlayParent) {
+      this.updateNiivueClipPlanes()
+    }
 
     // Refresh NiiVue
     this.niivue.updateGLVolume()
 
+    // Load label overlays for the same region, time point and level
+    await this._syncLabelOverlays(
+      ngffImage,
+      requesterId,
+      effectiveTimeIndex,
+      signal,
+    )
+
     if (!this.isLabelImage) {
       // Widen the display window if actual data exceeds the OMERO range.
       // At higher resolutions, individual bright/dark voxels that were averaged
@@ -894,20 +1246,23 @@ export class OMEZarrNVImage extends NVImage {
     const sz = scale.z ?? scale.Z ?? 1
 
     // Set pixDims directly from resolution's voxel size
-    this.hdr.pixDims = [1, sx, sy, sz, 0, 0, 0, 0]
+    this.hdr.pixDims = [1, sx, sy, sz, this._timeAxisInfo?.step ?? 0, 0, 0, 0]
 
     // Set dims to match fetched data (buffer now equals fetched size)
     // NIfTI dims: [ndim, x, y, z, t, ...]
+    const frames = this._framesPerLoad
     this.hdr.dims = [
-      3,
+      frames > 1 ? 4 : 3,
       fetchedShape[2],
       fetchedShape[1],
       fetchedShape[0],
-      1,
+      frames,
       1,
       1,
       1,
     ]
+    this._syncTimeIndexFromFrame4D()
+    this._updateFrames4D(this)
 
     // Compute buffer bounds in un-oriented OME-Zarr world space.
     // These drive clip-plane / viewport math and must stay un-oriented.
@@ -926,10 +1281,44 @@ export class OMEZarrNVImage extends NVImage {
       ],
     }
 
-    // Build the fully oriented affine (including orientation permutation
-    // and sign flips), then apply the region offset in world space.
-    // The offset goes through the oriented 3x3 rotation matrix so it
-    // lands on the correct world axis even when NGFF axes are permuted.
+    // Skip the affine y-flip when _flipY2DInData is set: NiiVue's RGBA
+    // 2D Texture2D fast path ignores the orient shader, so the affine
+    // y-flip has no visual effect. In that case the rows are reversed
+    // in the pixel buffer instead (see _flipRowsInPlace).
+    const affine = this._regionAffine(
+      ngffImage,
+      regionStart,
+      fetchedShape,
+      !this._flipY2DInData,
+    )
+
+    // Update affine in header
+    const srows = affineToNiftiSrows(affine)
+    this.hdr.affine = [srows.srow_x, srows.srow_y, srows.srow_z, [0, 0, 0, 1]]
+
+    // Recalculate RAS orientation
+    this.calculateRAS()
+  }
+
+  /**
+   * Oriented NIfTI affine of a loaded region.
+   *
+   * Builds the fully oriented affine (including orientation permutation
+   * and sign flips), then applies the region offset in world space. The
+   * offset goes through the oriented 3x3 rotation matrix so it lands on
+   * the correct world axis even when NGFF axes are permuted.
+   *
+   * @param ngffImage - The NgffImage the region was fetched from
+   * @param regionStart - Pixel position of the region origin [z, y, x]
+   * @param fetchedShape - Shape of the region [z, y, x]
+   * @param flipY - Apply the y-flip of 2D images (with `flipY2D`)
+   */
+  private _regionAffine(
+    ngffImage: NgffImage,
+    regionStart: [number, number, number],
+    fetchedShape: [number, number, number],
+    flipY: boolean,
+  ): mat4 {
     const affine = createAffineFromNgffImage(ngffImage)
 
     // regionStart is [z, y, x]; affine columns map NIfTI [i=x, j=y, k=z]
@@ -947,12 +1336,7 @@ export class OMEZarrNVImage extends NVImage {
     // top-to-bottom pixel storage order. We shift the translation so
     // the last row maps to where the first row was, then negate the
     // y column. This composes correctly with any orientation sign.
-    //
-    // Skip the affine flip when _flipY2DInData is set: NiiVue's RGBA
-    // 2D Texture2D fast path ignores the orient shader, so the affine
-    // y-flip has no visual effect. In that case the rows are reversed
-    // in the pixel buffer instead (see _flipRowsInPlace).
-    if (this._flipY2D && this._is2D && !this._flipY2DInData) {
+    if (flipY && this._flipY2D && this._is2D) {
       // Get the y axis orientation mapping to find where the y scale is stored
       const mapping = getOrientationMapping(ngffImage.axesOrientations)
       // The y scale is at affine[4 + physicalRow] (column 1, appropriate row)
@@ -960,13 +1344,7 @@ export class OMEZarrNVImage extends NVImage {
       affine[13] += affine[yScaleIndex] * (fetchedShape[1] - 1)
       affine[yScaleIndex] = -affine[yScaleIndex]
     }
-
-    // Update affine in header
-    const srows = affineToNiftiSrows(affine)
-    this.hdr.affine = [srows.srow_x, srows.srow_y, srows.srow_z, [0, 0, 0, 1]]
-
-    // Recalculate RAS orientation
-    this.calculateRAS()
+    return affine
   }
 
   /**
@@ -1018,8 +1396,10 @@ export class OMEZarrNVImage extends NVImage {
   private updateNiivueClipPlanes(): void {
     // Use current buffer bounds for clip plane conversion
     // This ensures clip planes are relative to the currently loaded data
+    // With CPU masking, planes beyond NiiVue's limit are applied by the
+    // mask only
     const niivueClipPlanes = clipPlanesToNiivue(
-      this._clipPlanes,
+      this._clipPlanes.slice(0, MAX_CLIP_PLANES),
       this._currentBufferBounds,
     )
 
@@ -1059,48 +1439,143 @@ export class OMEZarrNVImage extends NVImage {
   }
 
   /**
-   * Build and apply a discrete NiiVue label colormap to an NVImage.
+   * Seed {@link labelColors} from the full lowest resolution level, once.
    *
-   * Scans the pixel data for unique integer values and assigns each a
-   * distinct color from the Glasbey palette (via `@fideus-labs/ngff-zarr`).
-   * Label 0 is treated as background (fully transparent).
+   * Seeding assigns colors to every label visible in the overview before
+   * any higher level or partial region is shown, so progressive loading
+   * does not reshuffle them. Concurrent 3D and slab loads share the
+   * pending fetch. Seeding is skipped when the lowest level exceeds
+   * `maxPixels`, and retried by the next load when `signal` aborts it.
+   * Otherwise, on failure, colors are assigned as labels are loaded.
    *
-   * @param nvImage - The NVImage to apply the label colormap to
-   * @param data - The pixel data to scan for unique labels
+   * @param timeIndex - Time point of the load that needs the colors
+   * @param signal - AbortSignal of that load
    */
-  private _applyLabelColormap(nvImage: NVImage, data: TypedArray): void {
-    const uniqueLabels = [...new Set(data as Iterable<number>)].sort(
-      (a, b) => a - b,
-    )
-
-    const R: number[] = []
-    const G: number[] = []
-    const B: number[] = []
-    const A: number[] = []
-    const I: number[] = []
-    const labels: string[] = []
-
-    for (let i = 0; i < uniqueLabels.length; i++) {
-      const label = uniqueLabels[i]
-      I.push(label)
+  private async _ensureLabelColorsSeeded(
+    timeIndex: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    this._labelColorSeed ??= (async () => {
+      const lowestLevel = this.multiscales.images.length - 1
+      const ngffImage = this.multiscales.images[lowestLevel]
+      const shape = getVolumeShape(ngffImage)
+      if (shape[0] * shape[1] * shape[2] > this.maxPixels) return
+      try {
+        const result = await this.coalescer.fetchRegion(
+          ngffImage,
+          lowestLevel,
+          { start: [0, 0, 0], end: shape },
+          "label-seed",
+          timeIndex,
+          signal,
+        )
+        if (signal?.aborted) {
+          this._labelColorSeed = null
+          return
+        }
+        this._assignLabelColors(this._uniqueLabels(result.data))
+      } catch (err) {
+        if (signal?.aborted) {
+          this._labelColorSeed = null
+          return
+        }
+        console.error("[fidnii] Label color seeding failed:", err)
+      }
+    })()
+    await this._labelColorSeed
+  }
 
-      if (label === 0) {
+  /**
+   * Assign persistent colors to label values not seen before.
+   *
+   * Colors come from the `image-label` metadata ({@link labelInfo});
+   * other labels take the next color of the Glasbey palette (via
+   * `@fideus-labs/ngff-zarr`) in ascending label order. Label 0 is
+   * background (fully transparent) unless the metadata gives it a color.
+   *
+   * @param uniqueLabels - The sorted unique label values of the data
+   */
+  private _assignLabelColors(uniqueLabels: number[]): void {
+    for (const label of uniqueLabels) {
+      if (this._labelColors.has(label)) continue
+      const rgba = this._labelInfo.get(label)?.rgba
+      if (rgba) {
+        this._labelColors.set(label, [...rgba])
+      } else if (label === 0) {
         // Background: transparent
-        R.push(0)
-        G.push(0)
-        B.push(0)
-        A.push(0)
-        labels.push("background")
+        this._labelColors.set(label, [0, 0, 0, 0])
       } else {
         // Use Glasbey color palette (cycling if >256 labels)
-        const hex = GLASBEY_COLORS[(i - 1) % GLASBEY_COLORS.length] ?? "FFFFFF"
-        R.push(parseInt(hex.slice(0, 2), 16))
-        G.push(parseInt(hex.slice(2, 4), 16))
-        B.push(parseInt(hex.slice(4, 6), 16))
-        A.push(255)
-        labels.push(String(label))
+        const hex =
+          GLASBEY_COLORS[this._nextGlasbeyIndex++ % GLASBEY_COLORS.length] ??
+          "FFFFFF"
+        this._labelColors.set(label, [
+          parseInt(hex.slice(0, 2), 16),
+          parseInt(hex.slice(2, 4), 16),
+          parseInt(hex.slice(4, 6), 16),
+          255,
+        ])
       }
     }
+  }
+
+  /**
+   * Build and apply a discrete NiiVue label colormap to an NVImage.
+   *
+   * Scans the pixel data for unique integer values and colors them from
+   * the persistent {@link labelColors} map, extending it with any label
+   * not seen before. Names come from the `image-label` metadata
+   * ({@link labelInfo}).
+   *
+   * @param nvImage - The NVImage to apply the label colormap to
+   * @param data - The pixel data to scan for unique labels
+   */
+  private _applyLabelColormap(nvImage: NVImage, data: TypedArray): void {
+    const uniqueLabels = this._uniqueLabels(data)
+    this._assignLabelColors(uniqueLabels)
+    this._colormapLabels.set(nvImage, uniqueLabels)
+    this._setLabelColormap(nvImage, uniqueLabels)
+  }
+
+  /**
+   * Get the sorted unique label values of label pixel data.
+   */
+  private _uniqueLabels(data: TypedArray): number[] {
+    return [...new Set(data as Iterable<number>)].sort((a, b) => a - b)
+  }
+
+  /**
+   * Set the discrete colormap of a label NVImage.
+   *
+   * The alpha of each label is its color's alpha scaled by its opacity
+   * ({@link setLabelOpacity}), or 0 when the label is hidden.
+   *
+   * @param nvImage - The NVImage to apply the label colormap to
+   * @param uniqueLabels - The sorted label values present in its data
+   */
+  private _setLabelColormap(nvImage: NVImage, uniqueLabels: number[]): void {
+    const R: number[] = []
+    const G: number[] = []
+    const B: number[] = []
+    const A: number[] = []
+    const I: number[] = []
+    const labels: string[] = []
+
+    for (const label of uniqueLabels) {
+      const [r, g, b, a] = this._labelColors.get(label) ?? [255, 255, 255, 255]
+      const visible = this._isolatedLabels
+        ? this._isolatedLabels.has(label)
+        : !this._hiddenLabels.has(label)
+      I.push(label)
+      R.push(r)
+      G.push(g)
+      B.push(b)
+      A.push(visible ? Math.round(a * (this._labelOpacity.get(label) ?? 1)) : 0)
+      labels.push(
+        this._labelInfo.get(label)?.name ??
+          (label === 0 ? "background" : String(label)),
+      )
+    }
 
     // NiiVue's setColormapLabel expects a ColorMap-shaped object
     nvImage.setColormapLabel({ R, G, B, A, I, labels })
@@ -1109,12 +1584,13 @@ export class OMEZarrNVImage extends NVImage {
   /**
    * Ensure OMERO metadata is available and applied.
    *
-   * Strategy:
+   * Strategy (for the default `"omero"` window strategy):
    * - If OMERO exists in file metadata, use it (first time only)
    * - If NOT present, compute dynamically:
    *   - Compute at preview (lowest) resolution for quick initial display
    *   - Recompute at target resolution for more accurate values
    *   - Keep target values for consistency on subsequent clip plane changes
+   *   - With `lockWindow`, keep the first computed values instead
    *
    * @param ngffImage - The NgffImage at the current resolution level
    * @param levelIndex - The resolution level index
@@ -1123,6 +1599,21 @@ export class OMEZarrNVImage extends NVImage {
     ngffImage: NgffImage,
     levelIndex: number,
   ): Promise<void> {
+    if (this._windowStrategy !== "omero") {
+      // Computed once (3D and slab loads share the pending computation)
+      if (this._omero) return
+      this._strategyOmero ??= this._computeStrategyOmero().catch((err) => {
+        this._strategyOmero = null
+        throw err
+      })
+      const omero = await this._strategyOmero
+      if (!this._omero) {
+        this._omero = omero
+        this.applyOmeroToHeader()
+      }
+      return
+    }
+
     const existingOmero = this.multiscales.metadata?.omero
 
     if (existingOmero && !this._omero) {
@@ -1132,15 +1623,18 @@ export class OMEZarrNVImage extends NVImage {
       return
     }
 
-    if (!existingOmero) {
+    if (!existingOmero && !this._omeroEdited) {
       // No OMERO in file - compute dynamically
       // Compute at preview (lowest) and target levels, then keep for consistency
       const lowestLevel = this.multiscales.images.length - 1
       const isPreviewLevel = levelIndex === lowestLevel
       const isTargetLevel = levelIndex === this.targetLevelIndex
-      const needsCompute =
-        isPreviewLevel ||
-        (isTargetLevel && this._omeroComputedForLevel !== this.targetLevelIndex)
+      // A locked window is computed once and never replaced
+      const needsCompute = this._lockWindow
+        ? this._omeroComputedForLevel === -1
+        : isPreviewLevel ||
+          (isTargetLevel &&
+            this._omeroComputedForLevel !== this.targetLevelIndex)
 
       if (needsCompute) {
         // Pass the chunk cache so decoded chunks from OMERO statistics
@@ -1160,13 +1654,70 @@ export class OMEZarrNVImage extends NVImage {
   }
 
   /**
-   * Get per-channel normalization windows for non-uint8 RGB/RGBA.
+   * Build the OMERO metadata of a `windowStrategy` other than `"omero"`.
+   *
+   * Channel colors, labels and visibility come from the file's OMERO
+   * metadata when present. Windows are taken from `fixedWindow`, or
+   * computed with {@link computeStatistics} from the lowest resolution
+   * level, so they do not depend on the loaded level or region.
+   */
+  private async _computeStrategyOmero(): Promise<Omero> {
+    const lowestLevel = this.multiscales.images.length - 1
+    const ngffImage = this.multiscales.images[lowestLevel]
+    const cDim = ngffImage.dims.indexOf("c")
+    const channelCount = cDim === -1 ? 1 : ngffImage.data.shape[cDim]
+    const fileOmero = this.multiscales.metadata?.omero
+    const defaultColors = getDefaultColors(channelCount)
+    const [low, high] = this._windowPercentiles
+
+    const channels: OmeroChannel[] = []
+    for (let c = 0; c < channelCount; c++) {
+      const fileChannel = fileOmero?.channels?.[c]
+      let window: OmeroWindow
+      if (this._windowStrategy === "fixed") {
+        const [start, end] = this._fixedWindow as [number, number]
+        window = {
+          min: fileChannel?.window?.min ?? start,
+          max: fileChannel?.window?.max ?? end,
+          start,
+          end,
+        }
+      } else {
+        const stats = await computeStatistics(this.multiscales, {
+          levelIndex: lowestLevel,
+          timeIndex: this._timeIndex,
+          channelIndex: cDim === -1 ? undefined : c,
+          bins: OMEZarrNVImage.WINDOW_HISTOGRAM_BINS,
+          percentiles: [low, high],
+          coalescer: this.coalescer,
+        })
+        const percentile = this._windowStrategy === "percentile"
+        window = {
+          min: stats.min,
+          max: stats.max,
+          start: percentile ? stats.percentiles[low] : stats.min,
+          end: percentile ? stats.percentiles[high] : stats.max,
+        }
+      }
+      channels.push({
+        color: fileChannel?.color ?? defaultColors[c],
+        window,
+        label: fileChannel?.label,
+        active: fileChannel?.active ?? true,
+      })
+    }
+    return { ...fileOmero, channels }
+  }
+
+  /**
+   * Get per-channel normalization windows for non-uint8 RGB/RGBA and
+   * composites.
    *
    * Uses OMERO `window.start`/`window.end` (or `window.min`/`window.max`)
    * when available. Falls back to computing min/max from the raw data.
    *
    * @param data - Raw multi-component data from the zarr fetch
-   * @param components - Number of components per voxel (3 or 4)
+   * @param components - Number of components per voxel
    * @returns Per-channel windows for normalization to uint8
    */
   private _getChannelWindows(
@@ -1195,13 +1746,278 @@ export class OMEZarrNVImage extends NVImage {
     return computeChannelMinMax(data, components)
   }
 
+  /**
+   * Get per-channel composite settings (window, tint color, active flag).
+   *
+   * Windows come from {@link _getChannelWindows}. Colors and active flags
+   * come from the OMERO channels; channels without OMERO metadata use the
+   * default ngff-zarr channel colors and are active.
+   *
+   * @param data - Raw multi-channel data from the zarr fetch
+   * @param components - Number of channels per voxel
+   * @returns Per-channel settings for {@link compositeToRGBA}
+   */
+  private _getCompositeChannels(
+    data: TypedArray,
+    components: number,
+  ): CompositeChannel[] {
+    const windows = this._getChannelWindows(data, components)
+    const defaultColors = getDefaultColors(components)
+    return windows.map((window, c) => {
+      const channel = this._omero?.channels?.[c]
+      return {
+        window,
+        color: parseHexColor(channel?.color ?? defaultColors[c]),
+        active: channel?.active !== false,
+      }
+    })
+  }
+
+  /**
+   * Whether fetched data is windowed to uint8 before upload (composites
+   * and non-uint8 RGB/RGBA). For these images the OMERO window is baked
+   * into the pixel data rather than applied through `cal_min`/`cal_max`.
+   */
+  private _usesChannelWindows(ngffImage: NgffImage): boolean {
+    if (this._isComposite) return true
+    return (
+      this._isMultiComponent && needsRGBNormalization(ngffImage, this.dtype)
+    )
+  }
+
+  /**
+   * Write fetched zarr data into a NiiVue output buffer.
+   *
+   * Composites are blended into RGBA, non-uint8 RGB/RGBA is normalized to
+   * uint8 using the OMERO channel windows, and uint8 RGB or scalar data is
+   * copied directly.
+   *
+   * @param targetData - Output buffer sized for the fetched region
+   * @param data - Raw data from the zarr fetch
+   * @param ngffImage - The NgffImage the data was fetched from
+   */
+  private _writePixelData(
+    targetData: TypedArray,
+    data: TypedArray,
+    ngffImage: NgffImage,
+  ): void {
+    if (this._isComposite && this._channelInfo) {
+      const { components } = this._channelInfo
+      const channels = this._getCompositeChannels(data, components)
+      targetData.set(compositeToRGBA(data, components, channels))
+    } else if (this._usesChannelWindows(ngffImage) && this._channelInfo) {
+      // Non-uint8 RGB/RGBA: normalize raw data to uint8 using OMERO windows
+      const { components } = this._channelInfo
+      const windows = this._getChannelWindows(data, components)
+      targetData.set(normalizeToUint8(data, components, windows))
+    } else {
+      // uint8 RGB or scalar: direct copy
+      targetData.set(data)
+    }
+  }
+
+  /**
+   * Fetch a region and write it into an output buffer.
+   *
+   * Fetches `timeIndex`, or every time point of the 4D range when
+   * {@link OMEZarrNVImageOptions.timeRange} is set. Frames are written
+   * consecutively and the buffer is resized to `shape` × frames.
+   *
+   * @param bufferManager - Output buffer (3D volume or slab)
+   * @param ngffImage - The NgffImage to fetch from
+   * @param levelIndex - Resolution level index
+   * @param region - Pixel region to fetch
+   * @param shape - Shape of the region in `[z, y, x]` order
+   * @param requesterId - ID for request coalescing
+   * @param timeIndex - Time point to fetch outside 4D mode
+   * @param signal - Optional AbortSignal to cancel the fetch
+   * @param cacheRegion - Chunk-aligned region of `region`. When given (and
+   *   the dataset has a time axis), frames are read from and stored in the
+   *   time frame cache.
+   * @param culling - Chunks to fetch when oblique clip planes cull the rest
+   * @param sliceType - Slice type of the slab being loaded; omit for the 3D
+   *   volume. Slab frames get the slab clip display applied.
+   * @returns Raw data of the first fetched frame
+   */
+  private async _fetchIntoBuffer(
+    bufferManager: BufferManager,
+    ngffImage: NgffImage,
+    levelIndex: number,
+    region: PixelRegion,
+    shape: [number, number, number],
+    requesterId: string,
+    timeIndex: number,
+    signal?: AbortSignal,
+    cacheRegion?: ChunkAlignedRegion,
+    culling?: ChunkCulling,
+    sliceType?: SlabSliceType,
+  ): Promise<TypedArray> {
+    const timeIndices: number[] = []
+    if (this._timeRange4D) {
+      for (let t = this._timeRange4D[0]; t <= this._timeRange4D[1]; t++) {
+        timeIndices.push(t)
+      }
+    } else {
+      timeIndices.push(timeIndex)
+    }
+
+    const useCache =
+      cacheRegion !== undefined &&
+      this._timeAxisInfo !== null &&
+      this._timeFrameCache !== null
+    const results = await Promise.all(
+      timeIndices.map(async (t) => {
+        const key = useCache
+          ? this._timeFrameKey(levelIndex, cacheRegion, t, culling)
+          : undefined
+        const cached = key ? this._timeFrameCache?.get(key) : undefined
+        if (cached) return cached
+
+        const result = culling
+          ? await this.coalescer.fetchChunks(
+              ngffImage,
+              levelIndex,
+              region,
+              culling.chunks,
+              requesterId,
+              t,
+              signal,
+              this._channelIndex ?? undefined,
+            )
+          : await this.coalescer.fetchRegion(
+              ngffImage,
+              levelIndex,
+              region,
+              requesterId,
+              t,
+              signal,
+              this._channelIndex ?? undefined,
+            )
+        if (key && cacheRegion) {
+          // Store a copy so the original fetch result can be GC'd
+          this._timeFrameCache?.set(key, {
+            data: result.data.slice() as TypedArray,
+            shape,
+            levelIndex,
+            region: cacheRegion,
+          })
+        }
+        return result
+      }),
+    )
+
+    // Culled loads may allocate a dense box beyond maxPixels (bounded by
+    // selectResolution)
+    const targetData = bufferManager.resize(
+      shape,
+      results.length,
+      culling ? this.maxPixels * MAX_CULLED_BUFFER_FACTOR : undefined,
+    )
+    const frameElements =
+      shape[0] * shape[1] * shape[2] * this._outputComponents
+    for (let f = 0; f < results.length; f++) {
+      const frameData = targetData.subarray(
+        f * frameElements,
+        (f + 1) * frameElements,
+      ) as TypedArray
+      this._writePixelData(frameData, results[f].data, ngffImage)
+      this._maskClippedVoxels(frameData, shape, region.start, ngffImage)
+      if (sliceType !== undefined) {
+        this._applySlabClipDisplay(frameData, shape, region.start, ngffImage)
+      }
+
+      // For RGBA 2D images, reverse the row order so the top-to-bottom
+      // pixel data matches WebGL's bottom-to-top texture convention.
+      // NiiVue's Texture2D fast path for RGBA 2D images skips the orient
+      // shader, so the affine-based y-flip has no effect on rendering.
+      if (this._flipY2DInData) {
+        this._flipRowsInPlace(
+          frameData,
+          shape[2], // x dimension (width)
+          shape[1], // y dimension (height)
+          this._outputComponents * bufferManager.getBytesPerPixel(),
+        )
+      }
+    }
+
+    return results[0].data
+  }
+
+  /**
+   * Sync an NVImage's 4D frame bookkeeping with its header dims.
+   *
+   * NiiVue only derives `nFrame4D`/`nVox3D` when it parses a file, so they
+   * are set here after each header update. `frame4D` selects the current
+   * time index within the 4D range.
+   */
+  private _updateFrames4D(nvImage: NVImage): void {
+    if (!nvImage.hdr) return
+    const frames = this._framesPerLoad
+    const dims = nvImage.hdr.dims
+    nvImage.nVox3D = dims[1] * dims[2] * dims[3]
+    nvImage.nFrame4D = frames
+    nvImage.nTotalFrame4D = frames
+    nvImage.frame4D = this._timeRange4D
+      ? this._timeIndex - this._timeRange4D[0]
+      : 0
+  }
+
+  /**
+   * Adopt a frame selected with NiiVue's own 4D controls as the time index.
+   *
+   * NiiVue changes `frame4D` of the 3D volume or a slab directly. Reading
+   * it back before a header update keeps reloads (pan, zoom, clip planes)
+   * on that frame instead of jumping back to the previous time index.
+   */
+  private _syncTimeIndexFromFrame4D(): void {
+    if (!this._timeRange4D) return
+    const [t0, t1] = this._timeRange4D
+    const frames = this._framesPerLoad
+    const volumes: NVImage[] = [this]
+    for (const slabState of this._slabBuffers.values()) {
+      volumes.push(slabState.nvImage)
+    }
+    for (const nvImage of volumes) {
+      // Only volumes already showing the 4D range (not placeholders)
+      if (nvImage.nFrame4D !== frames) continue
+      const frame = nvImage.frame4D
+      if (
+        !Number.isInteger(frame) ||
+        frame === this._timeIndex - t0 ||
+        t0 + frame > t1
+      ) {
+        continue
+      }
+      const previousIndex = this._timeIndex
+      this._timeIndex = t0 + frame
+      this._emitEvent("timeChange", {
+        index: this._timeIndex,
+        timeValue: this.getTimeValue(this._timeIndex),
+        previousIndex,
+        cached: true,
+      })
+      return
+    }
+  }
+
   /**
    * Handle clip plane change from NiiVue.
-   * This is called when the user interacts with clip planes in NiiVue.
+   * This is called when the user interacts with clip planes in NiiVue
+   * (e.g. dragging a plane in the 3D view).
+   *
+   * NiiVue's planes are relative to the current buffer, so they are
+   * converted back to world space against `_currentBufferBounds`. NiiVue
+   * already shows the new planes; only the debounced refetch is scheduled.
    */
   private onNiivueClipPlaneChange(_clipPlane: number[]): void {
-    // For now, we don't update our clip planes from NiiVue interactions
-    // This could be extended in the future to support bidirectional sync
+    const planes = niivueToClipPlanes(
+      this.niivue.scene.clipPlaneDepthAziElevs,
+      this._currentBufferBounds,
+    )
+    // Keep the masked-only planes NiiVue doesn't know about
+    planes.push(...this._clipPlanes.slice(MAX_CLIP_PLANES))
+    this._updateClipPlanes(planes, false)
+    this._setClipBoxState(null)
   }
 
   /**
@@ -1217,8 +2033,93 @@ export class OMEZarrNVImage extends NVImage {
    */
   setClipPlanes(planes: ClipPlanes): void {
     // Validate the planes
-    validateClipPlanes(planes)
+    validateClipPlanes(planes, this._maxClipPlanes)
+
+    this._cancelClipPlaneAnimation()
+    this._updateClipPlanes(planes, true)
+    this._setClipBoxState(null)
+  }
+
+  /**
+   * Crop the volume to an axis-aligned box.
+   *
+   * Replaces the clip planes with six axis-aligned planes, one per box
+   * face, each keeping the inside of the box visible. The box is
+   * intersected with {@link getVolumeBounds} and its min/max corners are
+   * reordered per axis if swapped.
+   *
+   * @param bounds - Crop box in world space
+   * @throws If the box does not intersect the volume
+   *
+   * @example
+   * ```ts
+   * const vb = image.getVolumeBounds()
+   * image.setClipBox({
+   *   min: [vb.min[0], vb.min[1], (vb.min[2] + vb.max[2]) / 2],
+   *   max: vb.max,
+   * })
+   * ```
+   */
+  setClipBox(bounds: VolumeBounds): void {
+    const volume = this._volumeBounds
+    const min: [number, number, number] = [0, 0, 0]
+    const max: [number, number, number] = [0, 0, 0]
+    for (let i = 0; i < 3; i++) {
+      min[i] = Math.max(Math.min(bounds.min[i], bounds.max[i]), volume.min[i])
+      max[i] = Math.min(Math.max(bounds.min[i], bounds.max[i]), volume.max[i])
+      if (!(min[i] <= max[i])) {
+        throw new Error(
+          `Clip box [${bounds.min.join(", ")}] to [${bounds.max.join(", ")}] ` +
+            `does not intersect the volume`,
+        )
+      }
+    }
+
+    const axes = ["x", "y", "z"] as const
+    const planes: ClipPlanes = []
+    for (let i = 0; i < 3; i++) {
+      planes.push(
+        createAxisAlignedClipPlane(axes[i], min[i], "positive", volume),
+        createAxisAlignedClipPlane(axes[i], max[i], "negative", volume),
+      )
+    }
+
+    this._cancelClipPlaneAnimation()
+    this._updateClipPlanes(planes, true)
+    this._setClipBoxState({ min, max })
+  }
+
+  /**
+   * Get the crop box set by {@link setClipBox}.
+   *
+   * @returns Copy of the crop box, or `null` if the clip planes were set
+   *   otherwise (or cleared) since
+   */
+  getClipBox(): VolumeBounds | null {
+    if (!this._clipBox) return null
+    return {
+      min: [...this._clipBox.min],
+      max: [...this._clipBox.max],
+    }
+  }
+
+  /**
+   * Update the crop box state and emit `clipBoxChange` when it changes.
+   */
+  private _setClipBoxState(clipBox: VolumeBounds | null): void {
+    if (clipBox === null && this._clipBox === null) return
+    this._clipBox = clipBox
+    this._emitEvent("clipBoxChange", { clipBox: this.getClipBox() })
+  }
 
+  /**
+   * Store new clip planes and schedule the debounced refetch decision.
+   *
+   * @param planes - Validated clip planes
+   * @param updateNiivue - Whether to push the planes to NiiVue (false when
+   *   they came from NiiVue)
+   */
+  private _updateClipPlanes(planes: ClipPlanes, updateNiivue: boolean): void {
     // Check if this is a "reset" operation (clearing all planes)
     const isReset = planes.length === 0 && this._previousClipPlanes.length > 0
 
@@ -1228,9 +2129,11 @@ export class OMEZarrNVImage extends NVImage {
       normal: normalizeVector([...p.normal] as [number, number, number]),
     }))
 
-    // Always update NiiVue clip planes immediately (visual feedback)
-    this.updateNiivueClipPlanes()
-    this.niivue.drawScene()
+    // Update NiiVue clip planes immediately (visual feedback)
+    if (updateNiivue) {
+      this.updateNiivueClipPlanes()
+      this.niivue.drawScene()
+    }
 
     // Clear any pending debounced refetch
     if (this.clipPlaneRefetchTimeout) {
@@ -1277,6 +2180,7 @@ export class OMEZarrNVImage extends NVImage {
       this._clipPlanes,
       this._volumeBounds,
       this._viewportBounds3D ?? undefined,
+      this._framesPerLoad,
     )
 
     // Direction-aware resolution change
@@ -1297,14 +2201,23 @@ export class OMEZarrNVImage extends NVImage {
     }
     // Otherwise: keep current level (no unnecessary resolution changes)
 
-    // Only refetch when resolution level changes
+    // Only refetch when resolution level changes, when oblique planes
+    // change which chunks are culled at the current level, or when CPU
+    // masking has to be reapplied.
     // Visual clipping is handled by NiiVue clip planes (already updated in setClipPlanes)
-    if (newTargetLevel !== this.targetLevelIndex) {
+    if (
+      newTargetLevel !== this.targetLevelIndex ||
+      this._chunkCullingChanged(newTargetLevel) ||
+      this._maskClipPlanes
+    ) {
       this.targetLevelIndex = newTargetLevel
-      // Spatial region changed — cached time frames are stale
-      this._invalidateTimeFrameCache()
+      // Spatial region changed — stop pre-fetching the old region
+      this._cancelTimeFramePrefetch()
       this.populateVolume(true, "clipPlanesChanged") // Skip preview for clip plane updates
     }
+    if (this._slabsShowClipping) {
+      this._reloadAllSlabs("clipPlanesChanged")
+    }
 
     // Emit clipPlanesChange event (after debounce)
     this._emitEvent("clipPlanesChange", {
@@ -1313,69 +2226,267 @@ export class OMEZarrNVImage extends NVImage {
   }
 
   /**
-   * Calculate pixel count for a chunk-aligned region.
+   * Maximum number of clip planes: unlimited with CPU masking, otherwise
+   * NiiVue's shader limit.
    */
-  private calculateAlignedPixelCount(aligned: ChunkAlignedRegion): number {
-    return (
-      (aligned.chunkAlignedEnd[0] - aligned.chunkAlignedStart[0]) *
-      (aligned.chunkAlignedEnd[1] - aligned.chunkAlignedStart[1]) *
-      (aligned.chunkAlignedEnd[2] - aligned.chunkAlignedStart[2])
-    )
+  private get _maxClipPlanes(): number {
+    return this._maskClipPlanes ? Number.POSITIVE_INFINITY : MAX_CLIP_PLANES
   }
 
   /**
-   * Create a deep copy of clip planes array.
+   * Zero the voxels of a freshly written frame that lie outside the clip
+   * planes, when CPU masking is enabled.
+   *
+   * @param frameData - Output buffer of one frame
+   * @param shape - Frame shape [z, y, x]
+   * @param regionStart - Pixel position of the frame origin [z, y, x]
+   * @param ngffImage - The NgffImage the frame was fetched from
    */
-  private copyClipPlanes(planes: ClipPlanes): ClipPlanes {
-    return planes.map((p) => ({
-      point: [...p.point] as [number, number, number],
-      normal: [...p.normal] as [number, number, number],
-    }))
+  private _maskClippedVoxels(
+    frameData: TypedArray,
+    shape: [number, number, number],
+    regionStart: [number, number, number],
+    ngffImage: NgffImage,
+  ): void {
+    if (!this._maskClipPlanes || this._clipPlanes.length === 0) return
+    maskOutsideClipPlanes(
+      frameData,
+      shape,
+      this._outputComponents,
+      regionStart,
+      this._clipPlanes,
+      ngffImage,
+    )
   }
 
   /**
-   * Get current clip planes.
-   *
-   * @returns Copy of current clip planes array
+   * Whether slab buffers depend on the clip planes (CPU masking, dimming
+   * or intersection lines), so clip plane changes must reload the slabs.
    */
-  getClipPlanes(): ClipPlanes {
-    return this._clipPlanes.map((p) => ({
-      point: [...p.point] as [number, number, number],
-      normal: [...p.normal] as [number, number, number],
-    }))
+  private get _slabsShowClipping(): boolean {
+    return (
+      this._maskClipPlanes ||
+      this._slabClipDisplay !== "none" ||
+      this._slabClipLines
+    )
   }
 
   /**
-   * Add a single clip plane.
+   * Dim or hide the clipped voxels of a freshly written slab frame and
+   * draw the clip plane intersection lines, per
+   * {@link OMEZarrNVImageOptions.slabClipDisplay} and
+   * {@link OMEZarrNVImageOptions.slabClipLines}.
    *
-   * @param plane - Clip plane to add
-   * @throws Error if already at maximum (6) clip planes
+   * @param frameData - Output buffer of one slab frame
+   * @param shape - Frame shape [z, y, x]
+   * @param regionStart - Pixel position of the frame origin [z, y, x]
+   * @param ngffImage - The NgffImage the frame was fetched from
    */
-  addClipPlane(plane: ClipPlane): void {
-    if (this._clipPlanes.length >= MAX_CLIP_PLANES) {
-      throw new Error(
-        `Cannot add clip plane: already at maximum of ${MAX_CLIP_PLANES} planes`,
+  private _applySlabClipDisplay(
+    frameData: TypedArray,
+    shape: [number, number, number],
+    regionStart: [number, number, number],
+    ngffImage: NgffImage,
+  ): void {
+    if (this._clipPlanes.length === 0) return
+    const components = this._outputComponents
+    // Already zeroed by _maskClippedVoxels
+    const display = this._maskClipPlanes ? "none" : this._slabClipDisplay
+    const drawLines = this._slabClipLines && !this.isLabelImage
+    if (display === "none" && !drawLines) return
+
+    if (display === "hide" || (display === "dim" && this.isLabelImage)) {
+      maskOutsideClipPlanes(
+        frameData,
+        shape,
+        components,
+        regionStart,
+        this._clipPlanes,
+        ngffImage,
+      )
+    }
+    const [windowStart, windowEnd] =
+      display === "dim" || drawLines
+        ? this._getSlabDisplayRange(frameData)
+        : [0, 0]
+    if (display === "dim" && !this.isLabelImage) {
+      dimOutsideClipPlanes(
+        frameData,
+        shape,
+        components,
+        regionStart,
+        this._clipPlanes,
+        ngffImage,
+        OMEZarrNVImage.SLAB_CLIP_DIM_FACTOR,
+        windowStart,
+      )
+    }
+    if (drawLines) {
+      drawClipPlaneLines(
+        frameData,
+        shape,
+        components,
+        regionStart,
+        this._clipPlanes,
+        ngffImage,
+        windowEnd,
       )
     }
-
-    const newPlanes = [
-      ...this._clipPlanes,
-      {
-        point: [...plane.point] as [number, number, number],
-        normal: [...plane.normal] as [number, number, number],
-      },
-    ]
-
-    this.setClipPlanes(newPlanes)
   }
 
   /**
-   * Remove a clip plane by index.
-   *
-   * @param index - Index of plane to remove
-   * @throws Error if index is out of bounds
+   * Display range used to dim clipped slab voxels and draw clip plane
+   * lines: the active channel's OMERO window for scalar data, otherwise
+   * `[0, max]` (RGB/RGBA) or `[min, max]` of the frame.
    */
-  removeClipPlane(index: number): void {
+  private _getSlabDisplayRange(frameData: TypedArray): [number, number] {
+    if (!this._isMultiComponent && this._omero?.channels?.length) {
+      const channelIndex = Math.min(
+        this._activeChannel,
+        this._omero.channels.length - 1,
+      )
+      const window = this._omero.channels[channelIndex]?.window
+      const start = window?.start ?? window?.min
+      const end = window?.end ?? window?.max
+      if (start !== undefined && end !== undefined) return [start, end]
+    }
+    let min = Number.POSITIVE_INFINITY
+    let max = Number.NEGATIVE_INFINITY
+    for (let i = 0; i < frameData.length; i++) {
+      const v = frameData[i]
+      if (v < min) min = v
+      if (v > max) max = v
+    }
+    if (!(min <= max)) return [0, 0]
+    return [this._isMultiComponent ? 0 : min, max]
+  }
+
+  /**
+   * Chunk-aligned region of the 3D volume for the current clip planes and
+   * 3D viewport bounds.
+   */
+  private _get3DRegion(ngffImage: NgffImage): ChunkAlignedRegion {
+    const pixelRegion = clipPlanesToPixelRegion(
+      this._clipPlanes,
+      this._volumeBounds,
+      ngffImage,
+      this._viewportBounds3D ?? undefined,
+    )
+    return alignToChunks(pixelRegion, ngffImage)
+  }
+
+  /**
+   * Cull the chunks of a chunk-aligned region that oblique clip planes cut
+   * away entirely.
+   *
+   * @returns The surviving chunks, or `null` when every chunk is needed
+   */
+  private _getChunkCulling(
+    ngffImage: NgffImage,
+    region: PixelRegion,
+  ): ChunkCulling | null {
+    if (!hasObliqueClipPlanes(this._clipPlanes)) return null
+
+    const voxels = (r: PixelRegion) =>
+      (r.end[0] - r.start[0]) *
+      (r.end[1] - r.start[1]) *
+      (r.end[2] - r.start[2])
+    const chunks = getVisibleChunks(region, this._clipPlanes, ngffImage)
+    const visibleVoxels = chunks.reduce((sum, chunk) => sum + voxels(chunk), 0)
+    if (visibleVoxels === voxels(region)) return null
+
+    const key = this._clipPlanes
+      .map((p) => [...p.point, ...p.normal].join(","))
+      .join(";")
+    return { chunks, key }
+  }
+
+  /**
+   * Check whether the 3D chunks culled at a resolution level differ from
+   * those of the last load, so the volume must be refetched even though
+   * the level is unchanged.
+   */
+  private _chunkCullingChanged(levelIndex: number): boolean {
+    const loaded = this._lastLoadedRegion
+    if (!loaded || loaded.levelIndex !== levelIndex) return false
+
+    const ngffImage = this.multiscales.images[levelIndex]
+    const region = this._get3DRegion(ngffImage)
+    const culling = this._getChunkCulling(ngffImage, {
+      start: region.chunkAlignedStart,
+      end: region.chunkAlignedEnd,
+    })
+    if (!culling || !loaded.culling) return culling !== loaded.culling
+
+    const chunkStarts = (c: ChunkCulling) =>
+      c.chunks.map((chunk) => chunk.start.join(",")).join(";")
+    return chunkStarts(culling) !== chunkStarts(loaded.culling)
+  }
+
+  /**
+   * Calculate pixel count for a chunk-aligned region.
+   */
+  private calculateAlignedPixelCount(aligned: ChunkAlignedRegion): number {
+    return (
+      (aligned.chunkAlignedEnd[0] - aligned.chunkAlignedStart[0]) *
+      (aligned.chunkAlignedEnd[1] - aligned.chunkAlignedStart[1]) *
+      (aligned.chunkAlignedEnd[2] - aligned.chunkAlignedStart[2])
+    )
+  }
+
+  /**
+   * Create a deep copy of clip planes array.
+   */
+  private copyClipPlanes(planes: ClipPlanes): ClipPlanes {
+    return planes.map((p) => ({
+      point: [...p.point] as [number, number, number],
+      normal: [...p.normal] as [number, number, number],
+    }))
+  }
+
+  /**
+   * Get current clip planes.
+   *
+   * @returns Copy of current clip planes array
+   */
+  getClipPlanes(): ClipPlanes {
+    return this._clipPlanes.map((p) => ({
+      point: [...p.point] as [number, number, number],
+      normal: [...p.normal] as [number, number, number],
+    }))
+  }
+
+  /**
+   * Add a single clip plane.
+   *
+   * @param plane - Clip plane to add
+   * @throws Error if already at maximum (6) clip planes
+   */
+  addClipPlane(plane: ClipPlane): void {
+    if (this._clipPlanes.length >= this._maxClipPlanes) {
+      throw new Error(
+        `Cannot add clip plane: already at maximum of ${this._maxClipPlanes} planes`,
+      )
+    }
+
+    const newPlanes = [
+      ...this._clipPlanes,
+      {
+        point: [...plane.point] as [number, number, number],
+        normal: [...plane.normal] as [number, number, number],
+      },
+    ]
+
+    this.setClipPlanes(newPlanes)
+  }
+
+  /**
+   * Remove a clip plane by index.
+   *
+   * @param index - Index of plane to remove
+   * @throws Error if index is out of bounds
+   */
+  removeClipPlane(index: number): void {
     if (index < 0 || index >= this._clipPlanes.length) {
       throw new Error(
         `Invalid clip plane index: ${index} (have ${this._clipPlanes.length} planes)`,
@@ -1393,6 +2504,121 @@ export class OMEZarrNVImage extends NVImage {
     this.setClipPlanes([])
   }
 
+  /**
+   * Sweep a clip plane along its normal.
+   *
+   * Every animation frame moves the plane and redraws NiiVue's visual
+   * clipping only. Data refetches are suppressed during the sweep; once it
+   * finishes, a single direction-aware resolution decision is made (as
+   * after a debounced {@link setClipPlanes}) and `clipPlanesChange` fires.
+   *
+   * Starting another animation, or setting clip planes, cancels a running
+   * sweep without a resolution decision.
+   *
+   * @param index - Index of the plane to move
+   * @param options - Start/end positions, duration and easing
+   * @returns Resolves when the sweep finishes or is cancelled
+   * @throws If `index` is out of bounds
+   *
+   * @example
+   * ```ts
+   * const { min, max } = image.getVolumeBounds()
+   * const half = (max[0] - min[0]) / 2
+   * image.setClipPlanes([
+   *   createAxisAlignedClipPlane("x", min[0], "positive", { min, max }),
+   * ])
+   * await image.animateClipPlane(0, { from: -half, to: half, durationMs: 3000 })
+   * ```
+   */
+  async animateClipPlane(
+    index: number,
+    options: ClipPlaneAnimationOptions,
+  ): Promise<void> {
+    if (index < 0 || index >= this._clipPlanes.length) {
+      throw new Error(
+        `Invalid clip plane index: ${index} (have ${this._clipPlanes.length} planes)`,
+      )
+    }
+
+    this._cancelClipPlaneAnimation()
+    const abortController = new AbortController()
+    this._clipPlaneAnimation = abortController
+
+    // Suppress any pending refetch until the sweep ends
+    if (this.clipPlaneRefetchTimeout) {
+      clearTimeout(this.clipPlaneRefetchTimeout)
+      this.clipPlaneRefetchTimeout = null
+    }
+    this._setClipBoxState(null)
+
+    const { min, max } = this._volumeBounds
+    const center: [number, number, number] = [
+      (min[0] + max[0]) / 2,
+      (min[1] + max[1]) / 2,
+      (min[2] + max[2]) / 2,
+    ]
+    const plane = this._clipPlanes[index]
+    const { normal } = plane
+    // Current position: signed distance of the plane from the center
+    const from = options.from ?? -pointToPlaneDistance(center, plane)
+    const durationMs = options.durationMs ?? 1000
+    const ease = this._getEasing(options.easing ?? "ease-in-out")
+
+    const start = performance.now()
+    for (;;) {
+      const elapsed = performance.now() - start
+      const t = durationMs > 0 ? Math.min(1, elapsed / durationMs) : 1
+      const distance = from + (options.to - from) * ease(t)
+      this._clipPlanes[index] = {
+        point: [
+          center[0] + normal[0] * distance,
+          center[1] + normal[1] * distance,
+          center[2] + normal[2] * distance,
+        ],
+        normal: [...normal],
+      }
+      this.updateNiivueClipPlanes()
+      this.niivue.drawScene()
+
+      if (t >= 1) break
+      await new Promise<void>((resolve) =>
+        requestAnimationFrame(() => resolve()),
+      )
+      if (abortController.signal.aborted) return
+    }
+
+    this._clipPlaneAnimation = null
+    this.handleDebouncedClipPlaneUpdate(false)
+  }
+
+  /**
+   * Cancel the running clip plane animation, if any.
+   */
+  private _cancelClipPlaneAnimation(): void {
+    if (this._clipPlaneAnimation) {
+      this._clipPlaneAnimation.abort()
+      this._clipPlaneAnimation = null
+    }
+  }
+
+  /**
+   * Resolve a clip plane easing to a progress function.
+   */
+  private _getEasing(easing: ClipPlaneEasing): (t: number) => number {
+    switch (easing) {
+      case "linear":
+        return (t) => t
+      case "ease-in":
+        return (t) => t * t
+      case "ease-out":
+        return (t) => t * (2 - t)
+      case "ease-in-out":
+        return (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t)
+      default:
+        return easing
+    }
+  }
+
   /**
    * Get the current resolution level index.
    */
@@ -1445,6 +2671,148 @@ export class OMEZarrNVImage extends NVImage {
     }
   }
 
+  // ============================================================
+  // Export
+  // ============================================================
+
+  /**
+   * Export the currently loaded data as a NIfTI-1 file.
+   *
+   * Writes the data as loaded (cropped by the clip planes, at the
+   * selected resolution level, with all frames of a 4D time range) using
+   * the oriented affine of the NiiVue header, so the file lines up with
+   * the source image in other tools. Display-only changes are left out:
+   * slab exports get the physical voxel size instead of the normalized
+   * one of the slab header and are re-read without the slab clip display,
+   * and rows of RGBA 2D images are stored in their original order.
+   *
+   * @param options - Gzip and slab selection
+   * @returns The `.nii` (or `.nii.gz`) file contents
+   * @throws If the requested slab has not been loaded
+   *
+   * @example
+   * ```ts
+   * const bytes = await image.toNifti({ gzip: true })
+   * const url = URL.createObjectURL(new Blob([bytes]))
+   * ```
+   */
+  async toNifti(options: NiftiExportOptions = {}): Promise<Uint8Array> {
+    const { sliceType } = options
+    let source: NVImage = this
+    let loaded = this._lastLoadedRegion
+    if (sliceType !== undefined) {
+      const slab = this._slabBuffers.get(sliceType)
+      if (!slab) {
+        throw new Error(
+          `No slab buffer loaded for slice type ${SLICE_TYPE[sliceType]}`,
+        )
+      }
+      source = slab.nvImage
+      loaded = this._lastLoadedSlabRegions.get(sliceType) ?? null
+    }
+    if (!source.hdr || !loaded) {
+      throw new Error("Cannot export to NIfTI before the header is created")
+    }
+
+    const ngffImage = this.multiscales.images[loaded.levelIndex]
+    const { chunkAlignedStart, chunkAlignedEnd } = loaded.region
+    const shape: [number, number, number] = [
+      chunkAlignedEnd[0] - chunkAlignedStart[0],
+      chunkAlignedEnd[1] - chunkAlignedStart[1],
+      chunkAlignedEnd[2] - chunkAlignedStart[2],
+    ]
+
+    let data: TypedArray
+    if (sliceType !== undefined) {
+      // The slab buffer also holds the slab clip display (dimmed voxels,
+      // clip lines), so re-read the slab window through the caches
+      const bufferManager = this._createBufferManager()
+      await this._fetchIntoBuffer(
+        bufferManager,
+        ngffImage,
+        loaded.levelIndex,
+        { start: chunkAlignedStart, end: chunkAlignedEnd },
+        shape,
+        `export-${SLICE_TYPE[sliceType]}`,
+        this._timeIndex,
+        undefined,
+        loaded.region,
+      )
+      data = bufferManager.getTypedArray()
+    } else {
+      data = this.bufferManager.getTypedArray()
+      if (this._flipY2DInData) data = data.slice() as TypedArray
+    }
+
+    // Restore the original row order of RGBA 2D images; the affine below
+    // carries the y-flip instead, as for all other 2D images
+    if (this._flipY2DInData) {
+      const frameElements =
+        shape[0] * shape[1] * shape[2] * this._outputComponents
+      for (let f = 0; f < this._framesPerLoad; f++) {
+        this._flipRowsInPlace(
+          data.subarray(f * frameElements, (f + 1) * frameElements),
+          shape[2],
+          shape[1],
+          this._outputComponents * this.bufferManager.getBytesPerPixel(),
+        )
+      }
+    }
+
+    // Physical voxel size and affine (slab headers are normalized to
+    // ~1 mm voxels for NiiVue's 2D renderer)
+    const scale = ngffImage.scale
+    const srows = affineToNiftiSrows(
+      this._regionAffine(ngffImage, chunkAlignedStart, shape, true),
+    )
+    const hdr = Object.assign(new NIFTI1(), source.hdr)
+    hdr.pixDims = [
+      1,
+      scale.x ?? scale.X ?? 1,
+      scale.y ?? scale.Y ?? 1,
+      scale.z ?? scale.Z ?? 1,
+      ...source.hdr.pixDims.slice(4),
+    ]
+    hdr.affine = [srows.srow_x, srows.srow_y, srows.srow_z, [0, 0, 0, 1]]
+
+    // Write through a detached NVImage so the export never touches the
+    // rendered image state
+    const out = new NVImage()
+    out.hdr = hdr
+    out.img = data as NVImage["img"]
+    return out.saveToUint8Array(options.gzip ? "export.nii.gz" : "export.nii")
+  }
+
+  /**
+   * Export a region of any resolution level as an OME-Zarr zip (`.ozx`)
+   * or OME-TIFF file, independent of what is currently loaded.
+   *
+   * Fetches through this image's coalescer, so chunks already in the
+   * chunk cache are not fetched again. See {@link exportRegion}.
+   *
+   * @param options - Format, world-space bounds, level and time range
+   * @returns The file contents
+   * @throws If the level or time range is invalid, or the bounds do not
+   *   intersect the volume
+   *
+   * @example
+   * ```ts
+   * // Export the current crop box at full resolution
+   * const bytes = await image.exportRegion({
+   *   format: "ome-tiff",
+   *   bounds: image.getClipBox() ?? undefined,
+   * })
+   * ```
+   */
+  async exportRegion(
+    options: Omit<ExportRegionOptions, "coalescer">,
+  ): Promise<Uint8Array> {
+    return exportRegion(this.multiscales, {
+      ...options,
+      coalescer: this.coalescer,
+    })
+  }
+
   // ============================================================
   // Time Navigation
   // ============================================================
@@ -1502,8 +2870,16 @@ export class OMEZarrNVImage extends NVImage {
    * After the frame is loaded, adjacent frames are pre-fetched in the
    * background so subsequent scrubbing can serve frames from cache.
    *
+   * Active 2D slabs are reloaded at the new time index as well (without
+   * awaiting them), and pre-fetch the adjacent frames of their current
+   * `slabStart`/`slabEnd` window.
+   *
+   * In 4D mode (see {@link OMEZarrNVImageOptions.timeRange}) every frame of
+   * the range is already loaded, and only the displayed `frame4D` changes.
+   *
    * @param index - Time index (0-based)
    * @throws If `index` is out of range `[0, timeCount)`
+   * @throws If `index` is outside the loaded 4D time range
    *
    * @example
    * ```ts
@@ -1529,25 +2905,61 @@ export class OMEZarrNVImage extends NVImage {
       )
     }
 
+    this._syncTimeIndexFromFrame4D()
     const previousIndex = this._timeIndex
     if (index === previousIndex) return
 
+    if (this._timeRange4D) {
+      this._showFrame4D(index, previousIndex)
+      return
+    }
+
     this._timeIndex = index
 
-    // Try the pre-fetch cache first
-    const cached = this._timeFrameCache.get(index)
-    if (cached && cached.levelIndex === this.currentLevelIndex) {
+    // Slabs load the new time point alongside the 3D volume
+    this._reloadAllSlabs("timeChanged")
+
+    // Try the time frame cache first (same level + region as displayed)
+    const loaded = this._prefetchRegion
+    const cached = loaded
+      ? this._timeFrameCache?.get(
+          this._timeFrameKey(
+            loaded.levelIndex,
+            loaded.region,
+            index,
+            loaded.culling,
+          ),
+        )
+      : undefined
+    if (cached) {
       // Cache hit: instant buffer swap
+      const cachedImage = this.multiscales.images[cached.levelIndex]
       const targetData = this.bufferManager.resize(cached.shape)
-      targetData.set(cached.data)
-      this.img = this.bufferManager.getTypedArray() as NVImage["img"]
-      this.updateHeaderForRegion(
-        this.multiscales.images[cached.levelIndex],
-        cached.region,
+      this._writePixelData(targetData, cached.data, cachedImage)
+      this._maskClippedVoxels(
+        targetData,
         cached.shape,
+        cached.region.chunkAlignedStart,
+        cachedImage,
       )
+      if (this._flipY2DInData) {
+        this._flipRowsInPlace(
+          targetData,
+          cached.shape[2],
+          cached.shape[1],
+          this._outputComponents * this.bufferManager.getBytesPerPixel(),
+        )
+      }
+      this.img = this.bufferManager.getTypedArray() as NVImage["img"]
+      this.updateHeaderForRegion(cachedImage, cached.region, cached.shape)
+      if (this.isLabelImage) {
+        // Labels first seen in this frame need colors and colormap entries
+        this._applyLabelColormap(this, targetData)
+      }
       this.global_min = undefined
+      this._loadedTimeIndex = index
       this.niivue.updateGLVolume()
+      void this._syncLabelOverlays(cachedImage, "timeChanged", index)
 
       this._emitEvent("timeChange", {
         index,
@@ -1556,8 +2968,17 @@ export class OMEZarrNVImage extends NVImage {
         cached: true,
       })
     } else {
-      // Cache miss: full load at current resolution + region
+      // Cache miss: full load at current resolution + region.
+      // populateVolume() only queues the load while another one is in
+      // flight, so wait for the queue to drain.
       await this.populateVolume(true, "initial")
+      if (this.isLoading) {
+        await new Promise<void>((resolve) =>
+          this.addEventListener("populateComplete", () => resolve(), {
+            once: true,
+          }),
+        )
+      }
 
       this._emitEvent("timeChange", {
         index,
@@ -1572,632 +2993,2073 @@ export class OMEZarrNVImage extends NVImage {
   }
 
   /**
-   * Clear the pre-fetched time frame cache.
+   * Switch the displayed frame of the 4D volume and slabs (no refetch).
    *
-   * Called internally when the spatial region or resolution changes
-   * (clip planes, viewport, resolution level), since cached frames
-   * were fetched for the previous region and are no longer valid.
+   * @throws If `index` is outside the loaded 4D time range
    */
-  private _invalidateTimeFrameCache(): void {
-    this._timeFrameCache.clear()
-    this._lastLoadedRegion = null
-    // Cancel any in-flight pre-fetches
-    if (this._prefetchAbortController) {
-      this._prefetchAbortController.abort()
-      this._prefetchAbortController = null
+  private _showFrame4D(index: number, previousIndex: number): void {
+    if (!this._timeRange4D) return
+    const [t0, t1] = this._timeRange4D
+    if (index < t0 || index > t1) {
+      throw new Error(
+        `Time index ${index} is outside the loaded 4D time range [${t0}, ${t1}]`,
+      )
+    }
+
+    this._timeIndex = index
+    this._updateFrames4D(this)
+    for (const slabState of this._slabBuffers.values()) {
+      this._updateFrames4D(slabState.nvImage)
+    }
+    const niivues = new Set([this.niivue, ...this._attachedNiivues.keys()])
+    for (const nv of niivues) {
+      nv.updateGLVolume()
+    }
+    const loaded = this._lastLoadedRegion
+    if (loaded) {
+      void this._syncLabelOverlays(
+        this.multiscales.images[loaded.levelIndex],
+        "timeChanged",
+        index,
+      )
     }
-    this._prefetchingTimeIndices.clear()
+
+    this._emitEvent("timeChange", {
+      index,
+      timeValue: this.getTimeValue(index),
+      previousIndex,
+      cached: true,
+    })
   }
 
   /**
-   * Pre-fetch adjacent time frames in the background.
+   * Read the values of one voxel across the time axis.
    *
-   * Fetches frames `[index - N, index + N]` (clamped to valid range)
-   * at the current resolution level and spatial region. Already-cached
-   * and currently-in-flight indices are skipped.
+   * Each time point is fetched as a 1×1×1 region through the request
+   * coalescer, so only the chunks containing the voxel are read (and
+   * decoded chunks are reused from the chunk cache). The displayed volume
+   * is not reloaded.
    *
-   * @param centerIndex - The time index to pre-fetch around
+   * For multi-channel images the selected channel (see
+   * {@link setChannel}) or else the active channel is sampled.
+   *
+   * @param worldCoord - World coordinate `[x, y, z]` (the oriented space
+   *   used by NiiVue's crosshair)
+   * @param options - Resolution level and time range
+   * @returns One value per time point in the range
+   * @throws If the level or time range is invalid
+   * @throws If the coordinate lies outside the volume
+   *
+   * @example
+   * ```ts
+   * const mm = nv.frac2mm(nv.scene.crosshairPos)
+   * const trace = await image.getTimeCourse([mm[0], mm[1], mm[2]])
+   * const f0 = trace[0]
+   * const dff = trace.map((f) => (f - f0) / f0)
+   * ```
    */
-  private _prefetchAdjacentFrames(centerIndex: number): void {
-    if (!this._timeAxisInfo || this._timePrefetchCount <= 0) return
-    if (!this._lastLoadedRegion) return
-
-    // Cancel any previous pre-fetch batch
-    if (this._prefetchAbortController) {
-      this._prefetchAbortController.abort()
+  async getTimeCourse(
+    worldCoord: [number, number, number],
+    options: TimeCourseOptions = {},
+  ): Promise<Float64Array> {
+    const levelIndex = options.level ?? 0
+    this._validateLevelIndex(levelIndex)
+
+    const count = this.timeCount
+    const [first, last] = options.tRange ?? [0, count - 1]
+    if (
+      !Number.isInteger(first) ||
+      !Number.isInteger(last) ||
+      first < 0 ||
+      last >= count ||
+      first > last
+    ) {
+      throw new Error(
+        `Invalid time range [${first}, ${last}] (have ${count} time points)`,
+      )
     }
-    const abortController = new AbortController()
-    this._prefetchAbortController = abortController
 
-    const { region, levelIndex } = this._lastLoadedRegion
     const ngffImage = this.multiscales.images[levelIndex]
-
-    // Collect indices to pre-fetch
-    const indices: number[] = []
-    for (let delta = 1; delta <= this._timePrefetchCount; delta++) {
-      const before = centerIndex - delta
-      const after = centerIndex + delta
-      if (before >= 0) indices.push(before)
-      if (after < this._timeAxisInfo.count) indices.push(after)
+    const voxel = this._worldToVoxel(worldCoord, ngffImage)
+    if (!voxel) {
+      throw new Error(
+        `World coordinate [${worldCoord.join(", ")}] is outside the volume`,
+      )
     }
 
-    // Filter out already cached and in-flight indices
-    const toFetch = indices.filter(
-      (i) =>
-        !this._timeFrameCache.has(i) && !this._prefetchingTimeIndices.has(i),
-    )
-
-    if (toFetch.length === 0) return
-
-    const fetchRegion: PixelRegion = {
-      start: region.chunkAlignedStart,
-      end: region.chunkAlignedEnd,
+    const region: PixelRegion = {
+      start: voxel,
+      end: [voxel[0] + 1, voxel[1] + 1, voxel[2] + 1],
     }
-
-    // Fire-and-forget pre-fetches
-    for (const timeIdx of toFetch) {
-      if (abortController.signal.aborted) break
-
-      this._prefetchingTimeIndices.add(timeIdx)
-
-      void this.coalescer
-        .fetchRegion(
-          ngffImage,
-          levelIndex,
-          fetchRegion,
-          `prefetch-t${timeIdx}`,
-          timeIdx,
-        )
-        .then((result) => {
-          if (abortController.signal.aborted) return
-
-          const shape: [number, number, number] = [
-            region.chunkAlignedEnd[0] - region.chunkAlignedStart[0],
-            region.chunkAlignedEnd[1] - region.chunkAlignedStart[1],
-            region.chunkAlignedEnd[2] - region.chunkAlignedStart[2],
-          ]
-
-          // Store a copy so the original fetch result can be GC'd
-          this._timeFrameCache.set(timeIdx, {
-            data: result.data.slice() as TypedArray,
-            shape,
+    const channelIndex =
+      this._channelIndex ??
+      (this._channelInfo ? this._activeChannel : undefined)
+
+    // Fetch in bounded batches so long series do not start every request
+    // at once
+    const values = new Float64Array(last - first + 1)
+    const batchSize = OMEZarrNVImage.TIME_COURSE_CONCURRENCY
+    for (let batch = 0; batch < values.length; batch += batchSize) {
+      const end = Math.min(batch + batchSize, values.length)
+      await Promise.all(
+        Array.from({ length: end - batch }, async (_, j) => {
+          const i = batch + j
+          const result = await this.coalescer.fetchRegion(
+            ngffImage,
             levelIndex,
             region,
-          })
-        })
-        .catch(() => {
-          // Silently ignore pre-fetch failures (non-critical)
-        })
-        .finally(() => {
-          this._prefetchingTimeIndices.delete(timeIdx)
-        })
+            "timecourse",
+            first + i,
+            undefined,
+            channelIndex,
+          )
+          values[i] = Number(result.data[0])
+        }),
+      )
     }
+    return values
   }
 
-  // ============================================================
-  // Viewport-Aware Resolution
-  // ============================================================
-
   /**
-   * Enable or disable viewport-aware resolution selection.
+   * Read the voxel value at a world coordinate from any resolution level,
+   * independent of the level currently displayed.
    *
-   * When enabled, pan/zoom/rotation interactions are monitored and the fetch
-   * region is constrained to the visible viewport area. This allows higher
-   * resolution within the same `maxPixels` budget when zoomed in.
+   * Fetches the single voxel through the region coalescer, so only the
+   * chunk containing it is read (and served from the chunk cache when
+   * already decoded). Use this instead of NiiVue's crosshair readout,
+   * which reports values of the (possibly downsampled) loaded buffer.
    *
-   * @param enabled - Whether to enable viewport-aware resolution
+   * @param worldCoord - World coordinate `[x, y, z]` (e.g. from
+   *   `nv.frac2mm(nv.scene.crosshairPos)` in the 3D view)
+   * @param options - Resolution level and time point
+   * @returns The voxel value, one value per channel for multi-channel
+   *   images (unless a single `channel` is selected), or `null` when the
+   *   coordinate is outside the volume
+   * @throws If the level or time index is out of range
+   *
+   * @example
+   * ```ts
+   * const value = await image.getValueAtWorld([12.5, -3, 40])
+   * ```
    */
-  setViewportAware(enabled: boolean): void {
-    if (enabled === this._viewportAwareEnabled) return
-    this._viewportAwareEnabled = enabled
-
-    if (enabled) {
-      // Hook viewport events on all attached NVs
-      for (const [nv, state] of this._attachedNiivues) {
-        this._hookViewportEvents(nv, state)
-      }
-      // Compute initial viewport bounds and trigger refetch
-      this._recomputeViewportBounds()
-    } else {
-      // Unhook viewport events on all attached NVs
-      for (const [nv, state] of this._attachedNiivues) {
-        this._unhookViewportEvents(nv, state)
-      }
-      // Clear viewport bounds and refetch at full volume
-      this._viewportBounds3D = null
-      this._viewportBoundsPerSlab.clear()
-      if (this._viewportUpdateTimeout) {
-        clearTimeout(this._viewportUpdateTimeout)
-        this._viewportUpdateTimeout = null
-      }
-      // Recompute resolution without viewport constraint
-      const selection = selectResolution(
-        this.multiscales,
-        this.maxPixels,
-        this._clipPlanes,
-        this._volumeBounds,
+  async getValueAtWorld(
+    worldCoord: [number, number, number],
+    options: ValueAtWorldOptions = {},
+  ): Promise<number | number[] | null> {
+    const levelIndex = options.levelIndex ?? 0
+    this._validateLevelIndex(levelIndex)
+    const timeIndex = options.timeIndex ?? this._timeIndex
+    if (
+      !Number.isInteger(timeIndex) ||
+      timeIndex < 0 ||
+      timeIndex >= this.timeCount
+    ) {
+      throw new Error(
+        `Invalid time index: ${timeIndex} (have ${this.timeCount} time points)`,
       )
-      if (selection.levelIndex !== this.targetLevelIndex) {
-        this.targetLevelIndex = selection.levelIndex
-        // Spatial region changed — cached time frames are stale
-        this._invalidateTimeFrameCache()
-        this.populateVolume(true, "viewportChanged")
-      }
-      // Also reload slabs without viewport constraint
-      this._reloadAllSlabs("viewportChanged")
     }
+    const sample = await this._sampleVoxel(worldCoord, levelIndex, timeIndex)
+    return sample?.value ?? null
   }
 
   /**
-   * Get whether viewport-aware resolution selection is enabled.
+   * Pick the label at a world coordinate of a label image or label
+   * overlay.
+   *
+   * The label is read at full resolution (level 0) at the current time
+   * index, so it stays correct while a coarse level is displayed. Its
+   * name, color and custom properties come from the `image-label`
+   * metadata. Attached Niivue crosshair moves emit the same pick as a
+   * `labelHover` event.
+   *
+   * @param worldCoord - World coordinate `[x, y, z]`
+   * @returns The label and its metadata, or `null` when the coordinate is
+   *   outside the volume
+   * @throws Error if this is not a label image
+   *
+   * @example
+   * ```ts
+   * const pick = await nuclei.pickLabel([12.5, -3, 40])
+   * if (pick && pick.label !== 0) console.log(pick.name, pick.properties)
+   * ```
    */
-  get viewportAware(): boolean {
-    return this._viewportAwareEnabled
+  async pickLabel(
+    worldCoord: [number, number, number],
+  ): Promise<LabelPick | null> {
+    this._assertLabelImage()
+    return this._pickLabel(worldCoord)
   }
 
   /**
-   * Get the current 3D viewport bounds (null if viewport-aware is disabled
-   * or no viewport constraint is active).
+   * Sample voxel values along a world-space line segment, e.g. for
+   * intensity profiles across membranes or vessels.
+   *
+   * Samples the current time point and channel selection through this
+   * image's coalescer, fetching only the chunks the line passes through.
+   * Without `levelIndex`, the finest level whose touched chunks fit in
+   * `maxPixels` is used. See {@link sampleLine}.
+   *
+   * @param p0 - Start point `[x, y, z]` in world space
+   * @param p1 - End point `[x, y, z]` in world space
+   * @param options - Sample count, level, interpolation and budget
+   * @returns Sample positions, distances and values (`NaN` outside the
+   *   volume)
+   * @throws If the level, time index or sample count is invalid
+   *
+   * @example
+   * ```ts
+   * const { distances, values } = await image.sampleLine(p0, p1, {
+   *   samples: 200,
+   *   interpolation: "trilinear",
+   * })
+   * ```
    */
-  getViewportBounds(): VolumeBounds | null {
-    if (!this._viewportBounds3D) return null
-    return {
-      min: [...this._viewportBounds3D.min] as [number, number, number],
-      max: [...this._viewportBounds3D.max] as [number, number, number],
-    }
+  async sampleLine(
+    p0: [number, number, number],
+    p1: [number, number, number],
+    options: Omit<SampleLineOptions, "channelIndex" | "coalescer"> = {},
+  ): Promise<LineProfile> {
+    return sampleLine(this.multiscales, p0, p1, {
+      timeIndex: this._timeIndex,
+      ...options,
+      channelIndex: this._channelIndex ?? undefined,
+      coalescer: this.coalescer,
+    })
   }
 
   /**
-   * Hook viewport events (mouseUp, zoom3DChange, wheel) on a NV instance.
-   * All listeners share a single AbortController so they can be torn down
-   * together via {@link _unhookViewportEvents}.
+   * Compute min, max, mean, standard deviation, percentiles and a
+   * histogram of a region at any resolution level, independent of what is
+   * currently loaded.
+   *
+   * The region is read chunk by chunk through this image's coalescer, so
+   * memory stays bounded however large the region is. Fires
+   * `statisticsProgress` after each chunk. Defaults to the current time
+   * point and channel selection. See {@link computeStatistics}.
+   *
+   * @param options - Region, level, time point, bins and abort signal
+   * @returns The region statistics
+   * @throws If the level, time index, bins or percentiles are invalid, or
+   *   the region does not intersect the volume
+   * @throws The abort reason when `signal` is aborted
+   *
+   * @example
+   * ```ts
+   * const stats = await image.computeStatistics({
+   *   clipPlanes: image.getClipPlanes(),
+   *   levelIndex: 0,
+   * })
+   * console.log(`median ${stats.percentiles[50]}`)
+   * ```
    */
-  private _hookViewportEvents(nv: Niivue, state: AttachedNiivueState): void {
-    const controller = new AbortController()
-    state.viewportAbortController = controller
-    const signal = controller.signal
+  async computeStatistics(
+    options: Omit<ComputeStatisticsOptions, "coalescer" | "onProgress"> = {},
+  ): Promise<RegionStatistics> {
+    return computeStatistics(this.multiscales, {
+      timeIndex: this._timeIndex,
+      channelIndex: this._channelIndex ?? undefined,
+      ...options,
+      coalescer: this.coalescer,
+      onProgress: (progress) => this._emitEvent("statisticsProgress", progress),
+    })
+  }
 
-    // Detect end of mouse/touch interaction
-    nv.addEventListener(
-      "mouseUp",
-      () => {
-        this._handleViewportInteractionEnd(nv)
-      },
-      { signal },
-    )
+  /**
+   * Fetch the voxel at a world coordinate.
+   *
+   * @returns The voxel index `[z, y, x]` and its value (per channel for
+   *   multi-channel images), or `null` outside the volume
+   */
+  private async _sampleVoxel(
+    worldCoord: [number, number, number],
+    levelIndex: number,
+    timeIndex: number,
+    signal?: AbortSignal,
+  ): Promise<{
+    voxel: [number, number, number]
+    value: number | number[]
+  } | null> {
+    const ngffImage = this.multiscales.images[levelIndex]
+    const voxel = this._worldToVoxel(worldCoord, ngffImage)
+    if (!voxel) return null
 
-    // Detect 3D zoom level changes
-    nv.addEventListener(
-      "zoom3DChange",
-      () => {
-        this._handleViewportInteractionEnd(nv)
-      },
-      { signal },
+    const result = await this.coalescer.fetchRegion(
+      ngffImage,
+      levelIndex,
+      { start: voxel, end: [voxel[0] + 1, voxel[1] + 1, voxel[2] + 1] },
+      "probe",
+      timeIndex,
+      signal,
+      this._channelIndex ?? undefined,
     )
-
-    // Detect scroll-wheel zoom on the canvas
-    if (nv.canvas) {
-      nv.canvas.addEventListener(
-        "wheel",
-        () => {
-          this._handleViewportInteractionEnd(nv)
-        },
-        { signal, passive: true },
-      )
-    }
+    const values = Array.from(result.data, Number)
+    return { voxel, value: this._isMultiComponent ? values : values[0] }
   }
 
   /**
-   * Unhook viewport events from a NV instance.
+   * Debounce a `voxelValue` probe at the crosshair of an attached Niivue
+   * instance.
    */
-  private _unhookViewportEvents(_nv: Niivue, state: AttachedNiivueState): void {
-    if (state.viewportAbortController) {
-      state.viewportAbortController.abort()
-      state.viewportAbortController = undefined
-    }
+  private _scheduleVoxelValueProbe(nv: Niivue): void {
+    if (this._voxelValueTimeout) clearTimeout(this._voxelValueTimeout)
+    this._voxelValueTimeout = setTimeout(() => {
+      this._voxelValueTimeout = null
+      void this._probeVoxelValue(nv)
+    }, OMEZarrNVImage.VOXEL_VALUE_DEBOUNCE_MS)
   }
 
-  // ============================================================
-  // 3D Zoom Override
-  // ============================================================
-
   /**
-   * Install a capturing-phase wheel listener on the NV canvas that overrides
-   * NiiVue's hardcoded 3D render zoom clamp ([0.5, 2.0]).
-   *
-   * The listener intercepts scroll events over 3D render tiles and applies
-   * zoom via `nv.setScale()` (which has no internal clamp), using the
-   * configurable `_min3DZoom` / `_max3DZoom` bounds instead.
-   *
-   * Clip-plane scrolling is preserved: when a clip plane is active
-   * (depth < 1.8), the event passes through to NiiVue's native handler.
+   * Sample the full-resolution value at a Niivue instance's crosshair and
+   * emit `voxelValue`. A newer probe aborts an older one still in flight.
    */
-  private _hookZoomOverride(nv: Niivue, state: AttachedNiivueState): void {
-    if (!nv.canvas) return
+  private async _probeVoxelValue(nv: Niivue): Promise<void> {
+    const state = this._attachedNiivues.get(nv)
+    const crosshairPos = nv.scene?.crosshairPos
+    if (!state || !crosshairPos || nv.volumes.length === 0) return
+
+    // Slab NVImages use normalized mm space (world * normalizationScale)
+    const isSlab = this._isSlabSliceType(state.currentSliceType)
+    const slabState = isSlab
+      ? this._slabBuffers.get(state.currentSliceType as SlabSliceType)
+      : undefined
+    const ns = slabState?.normalizationScale ?? 1
+    let worldCoord: [number, number, number]
+    try {
+      const mm = nv.frac2mm([crosshairPos[0], crosshairPos[1], crosshairPos[2]])
+      worldCoord = this._displayedToWorld(
+        [mm[0] / ns, mm[1] / ns, mm[2] / ns],
+        isSlab
+          ? this._lastLoadedSlabRegions.get(
+              state.currentSliceType as SlabSliceType,
+            )
+          : this._lastLoadedRegion,
+      )
+    } catch {
+      return // Can't convert coordinates yet
+    }
 
+    this._voxelValueAbortController?.abort()
     const controller = new AbortController()
-    state.zoomOverrideAbortController = controller
-
-    nv.canvas.addEventListener(
-      "wheel",
-      (e: WheelEvent) => {
-        // Convert mouse position to DPR-scaled canvas coordinates
-        const canvas = nv.canvas
-        if (!canvas) return
-        const rect = canvas.getBoundingClientRect()
-        const dpr = nv.uiData.dpr ?? 1
-        const x = (e.clientX - rect.left) * dpr
-        const y = (e.clientY - rect.top) * dpr
-
-        // Only intercept if mouse is over a 3D render tile
-        if (nv.inRenderTile(x, y) < 0) return
+    this._voxelValueAbortController = controller
+    const timeIndex = this._timeIndex
+    try {
+      const [sample] = await Promise.all([
+        this._sampleVoxel(worldCoord, 0, timeIndex, controller.signal),
+        this._probeLabels(worldCoord, controller.signal),
+      ])
+      if (!sample || controller.signal.aborted) return
+      this._emitEvent("voxelValue", { worldCoord, timeIndex, ...sample })
+    } catch (err) {
+      if (controller.signal.aborted) return
+      console.error("[fidnii] Voxel value probe failed:", err)
+    } finally {
+      if (this._voxelValueAbortController === controller) {
+        this._voxelValueAbortController = null
+      }
+    }
+  }
 
-        // Preserve clip-plane scrolling: when a clip plane is active
-        // (depth < 1.8), let NiiVue handle the event normally.
-        const clips = nv.scene.clipPlaneDepthAziElevs
-        const activeIdx = nv.uiData.activeClipPlaneIndex
-        if (
-          nv.volumes.length > 0 &&
-          clips?.[activeIdx]?.[0] !== undefined &&
-          clips[activeIdx][0] < 1.8
-        ) {
-          return
+  /**
+   * Pick the label under a world coordinate of this image (when it is a
+   * label image) and of each label overlay, and emit `labelHover` on
+   * each of them.
+   */
+  private async _probeLabels(
+    worldCoord: [number, number, number],
+    signal: AbortSignal,
+  ): Promise<void> {
+    const targets = this.isLabelImage
+      ? [this, ...this._labelOverlays]
+      : this._labelOverlays
+    await Promise.all(
+      targets.map(async (target) => {
+        try {
+          const pick = await target._pickLabel(worldCoord, signal)
+          if (signal.aborted) return
+          target._emitEvent("labelHover", { worldCoord, pick })
+        } catch (err) {
+          if (signal.aborted) return
+          console.error("[fidnii] Label pick failed:", err)
         }
-
-        // Prevent NiiVue's clamped handler from running.
-        // NiiVue registers its listener in the bubbling phase, so our
-        // capturing-phase listener fires first. stopImmediatePropagation
-        // ensures no other same-element listeners fire either.
-        e.stopImmediatePropagation()
-        e.preventDefault()
-
-        // Compute new zoom (same ×1.1 / ×0.9 per step as NiiVue).
-        // Round to 2 decimal places (NiiVue rounds to 1, which causes the
-        // zoom to get stuck at small values like 0.5 where ×0.9 rounds back).
-        const zoomDir = e.deltaY < 0 ? 1 : -1
-        const current = nv.scene.volScaleMultiplier
-        let newZoom = current * (zoomDir > 0 ? 1.1 : 0.9)
-        newZoom = Math.round(newZoom * 100) / 100
-        newZoom = Math.max(this._min3DZoom, Math.min(this._max3DZoom, newZoom))
-
-        nv.setScale(newZoom)
-
-        // Notify the viewport-aware system. Since we stopped propagation,
-        // the passive wheel listener from _hookViewportEvents won't fire,
-        // so we call this directly.
-        this._handleViewportInteractionEnd(nv)
-      },
-      { capture: true, signal: controller.signal },
+      }),
     )
   }
 
   /**
-   * Remove the 3D zoom override wheel listener from a NV instance.
+   * Fetch the full-resolution label at a world coordinate and look up its
+   * `image-label` metadata.
    */
-  private _unhookZoomOverride(_nv: Niivue, state: AttachedNiivueState): void {
-    if (state.zoomOverrideAbortController) {
-      state.zoomOverrideAbortController.abort()
-      state.zoomOverrideAbortController = undefined
+  private async _pickLabel(
+    worldCoord: [number, number, number],
+    signal?: AbortSignal,
+  ): Promise<LabelPick | null> {
+    const sample = await this._sampleVoxel(
+      worldCoord,
+      0,
+      this._timeIndex,
+      signal,
+    )
+    if (!sample) return null
+
+    const label = sample.value as number
+    const info = this._labelInfo.get(label)
+    return {
+      label,
+      voxel: sample.voxel,
+      ...(info?.name !== undefined && { name: info.name }),
+      ...(info?.rgba && { rgba: info.rgba }),
+      properties: getLabelProperties(this._imageLabel, label),
     }
   }
 
   /**
-   * Called at the end of any viewport interaction (mouse up, touch end,
-   * zoom change, scroll wheel). Debounces the viewport bounds recomputation.
+   * Throw if a resolution level index is out of range.
    */
-  private _handleViewportInteractionEnd(_nv: Niivue): void {
-    if (!this._viewportAwareEnabled) return
+  private _validateLevelIndex(levelIndex: number): void {
+    if (
+      !Number.isInteger(levelIndex) ||
+      levelIndex < 0 ||
+      levelIndex >= this.multiscales.images.length
+    ) {
+      throw new Error(
+        `Invalid resolution level: ${levelIndex} (have ${this.multiscales.images.length} levels)`,
+      )
+    }
+  }
 
-    // Debounce: clear any pending update and schedule a new one
-    if (this._viewportUpdateTimeout) {
-      clearTimeout(this._viewportUpdateTimeout)
+  /**
+   * Convert a position in the (un-normalized) mm space of a displayed
+   * buffer to world space.
+   *
+   * 2D images are displayed y-flipped (see `flipY2D`), in the affine or in
+   * the pixel data, so the displayed position of a row depends on the
+   * loaded region. Map the position through the buffer's voxel index
+   * instead.
+   *
+   * @param mm - Position in the mm space of the buffer's NiiVue header
+   * @param loaded - Region and level the buffer was loaded with
+   * @returns World coordinate `[x, y, z]`
+   */
+  private _displayedToWorld(
+    mm: [number, number, number],
+    loaded: LoadedRegion | null | undefined,
+  ): [number, number, number] {
+    if (!loaded || !this._flipY2D || !this._is2D) return mm
+    const ngffImage = this.multiscales.images[loaded.levelIndex]
+    const { chunkAlignedStart: start, chunkAlignedEnd: end } = loaded.region
+    const shape: [number, number, number] = [
+      end[0] - start[0],
+      end[1] - start[1],
+      end[2] - start[2],
+    ]
+    const voxel = worldToPixelAffine(
+      mm,
+      this._regionAffine(ngffImage, start, shape, true),
+    )
+    return pixelToWorldAffine(
+      voxel,
+      this._regionAffine(ngffImage, start, shape, false),
+    )
+  }
+
+  /**
+   * Convert a world coordinate to the nearest voxel index of a resolution
+   * level.
+   *
+   * @param worldCoord - World coordinate `[x, y, z]` (oriented space)
+   * @param ngffImage - The NgffImage to index into
+   * @returns Voxel index `[z, y, x]`, or `null` if outside the volume
+   */
+  private _worldToVoxel(
+    worldCoord: [number, number, number],
+    ngffImage: NgffImage,
+  ): [number, number, number] | null {
+    const pixelCoord = worldToPixelAffine(
+      worldCoord,
+      createAffineFromNgffImage(ngffImage),
+    )
+    const shape = getVolumeShape(ngffImage)
+    const voxel: [number, number, number] = [
+      Math.round(pixelCoord[0]),
+      Math.round(pixelCoord[1]),
+      Math.round(pixelCoord[2]),
+    ]
+    for (let axis = 0; axis < 3; axis++) {
+      if (voxel[axis] < 0 || voxel[axis] >= shape[axis]) return null
     }
-    this._viewportUpdateTimeout = setTimeout(() => {
-      this._viewportUpdateTimeout = null
-      this._recomputeViewportBounds()
-    }, OMEZarrNVImage.VIEWPORT_DEBOUNCE_MS)
+    return voxel
+  }
+
+  /** Whether time-lapse playback is running. */
+  get isPlaying(): boolean {
+    return this._playback !== null
   }
 
   /**
-   * Recompute viewport bounds from all attached NV instances and trigger
-   * resolution reselection if bounds changed significantly.
+   * Play the time series.
+   *
+   * Frames are shown one after another through {@link setTimeIndex}, so
+   * each frame is fully loaded (from the pre-fetch cache when possible)
+   * before the next one is requested. When loading is slower than the
+   * target frame rate, playback slows down to the rate the cache can
+   * sustain and the missed frame slots are reported as `droppedFrames`
+   * in the `playbackStop` event.
+   *
+   * Calling `play()` while playing restarts playback with the new options.
+   * Playback starts from the current time index when it lies inside the
+   * range, otherwise from the range start (range end for `"backward"`).
+   *
+   * @param options - Frame rate, looping, direction and range
+   * @throws If the dataset has no time dimension
+   * @throws If `fps` is not a positive number or `range` is invalid
+   *
+   * @example
+   * ```ts
+   * image.addEventListener('playbackStop', (e) => {
+   *   console.log(`Dropped ${e.detail.droppedFrames} frames`)
+   * })
+   * image.play({ fps: 15, direction: 'pingpong' })
+   * ```
    */
-  private _recomputeViewportBounds(): void {
-    if (!this._viewportAwareEnabled) return
+  play(options: PlaybackOptions = {}): void {
+    if (!this._timeAxisInfo) {
+      throw new Error("Cannot play: dataset has no time dimension")
+    }
 
-    // Compute separate viewport bounds for:
-    // - 3D volume: union of all RENDER/MULTIPLANAR NV viewport bounds
-    // - Per-slab: each slab type gets its own NV's viewport bounds
-    let new3DBounds: VolumeBounds | null = null
-    const newSlabBounds = new Map<SlabSliceType, VolumeBounds | null>()
+    const fps = options.fps ?? OMEZarrNVImage.DEFAULT_PLAYBACK_FPS
+    if (!Number.isFinite(fps) || fps <= 0) {
+      throw new Error(`Invalid playback fps: ${fps}`)
+    }
 
-    for (const [nv, state] of this._attachedNiivues) {
-      if (
-        state.currentSliceType === SLICE_TYPE.RENDER ||
-        state.currentSliceType === SLICE_TYPE.MULTIPLANAR
-      ) {
-        // 3D render mode: compute from orthographic frustum
-        const nvBounds = computeViewportBounds3D(nv, this._volumeBounds)
-        if (!new3DBounds) {
-          new3DBounds = nvBounds
-        } else {
-          // Union of multiple 3D views
-          new3DBounds = {
-            min: [
-              Math.min(new3DBounds.min[0], nvBounds.min[0]),
-              Math.min(new3DBounds.min[1], nvBounds.min[1]),
-              Math.min(new3DBounds.min[2], nvBounds.min[2]),
-            ],
-            max: [
-              Math.max(new3DBounds.max[0], nvBounds.max[0]),
-              Math.max(new3DBounds.max[1], nvBounds.max[1]),
-              Math.max(new3DBounds.max[2], nvBounds.max[2]),
-            ],
-          }
-        }
-      } else if (this._isSlabSliceType(state.currentSliceType)) {
-        // 2D slice mode: compute from pan/zoom
-        const sliceType = state.currentSliceType as SlabSliceType
-        const slabState = this._slabBuffers.get(sliceType)
-        const normScale = slabState?.normalizationScale ?? 1.0
-        const nvBounds = computeViewportBounds2D(
-          nv,
-          state.currentSliceType,
-          this._volumeBounds,
-          normScale,
-        )
-        newSlabBounds.set(sliceType, nvBounds)
-      }
+    const count = this._timeAxisInfo.count
+    const [first, last] = options.range ?? this._timeRange4D ?? [0, count - 1]
+    if (
+      !Number.isInteger(first) ||
+      !Number.isInteger(last) ||
+      first < 0 ||
+      last >= count ||
+      first > last
+    ) {
+      throw new Error(
+        `Invalid playback range [${first}, ${last}] (have ${count} time points)`,
+      )
     }
 
-    // Check if 3D bounds changed
-    const bounds3DChanged =
-      !new3DBounds !== !this._viewportBounds3D ||
-      (new3DBounds &&
-        this._viewportBounds3D &&
-        !boundsApproxEqual(new3DBounds, this._viewportBounds3D))
+    const loop = options.loop ?? true
+    const direction = options.direction ?? "forward"
 
-    // Check if any slab bounds changed
-    let slabBoundsChanged = false
-    for (const [sliceType, newBounds] of newSlabBounds) {
-      const oldBounds = this._viewportBoundsPerSlab.get(sliceType) ?? null
-      if (
-        !newBounds !== !oldBounds ||
-        (newBounds && oldBounds && !boundsApproxEqual(newBounds, oldBounds))
-      ) {
-        slabBoundsChanged = true
-        break
-      }
+    // Restarting replaces the running playback
+    this._endPlayback("paused")
+
+    let start = this._timeIndex
+    if (start < first || start > last) {
+      start = direction === "backward" ? last : first
     }
 
-    if (!bounds3DChanged && !slabBoundsChanged) return
+    const playback = {
+      abortController: new AbortController(),
+      range: [first, last] as [number, number],
+      framesShown: 0,
+      droppedFrames: 0,
+    }
+    this._playback = playback
+
+    this._emitEvent("playbackStart", {
+      index: start,
+      fps,
+      loop,
+      direction,
+      range: [first, last],
+    })
 
-    // Update stored bounds
-    this._viewportBounds3D = new3DBounds
-    for (const [sliceType, bounds] of newSlabBounds) {
-      this._viewportBoundsPerSlab.set(sliceType, bounds)
+    void this._runPlayback(playback, start, 1000 / fps, loop, direction)
+  }
+
+  /**
+   * Pause playback at the current time index.
+   *
+   * Does nothing when not playing.
+   */
+  pause(): void {
+    this._endPlayback("paused")
+  }
+
+  /**
+   * Stop playback and return to the start of the playback range
+   * (time index 0 when not playing).
+   */
+  async stop(): Promise<void> {
+    const first = this._playback?.range[0] ?? 0
+    this._endPlayback("stopped")
+    await this.setTimeIndex(first)
+  }
+
+  /**
+   * Playback loop: show a frame, wait out the rest of the frame interval,
+   * advance. Runs until the playback's AbortController is aborted or a
+   * non-looping range ends.
+   */
+  private async _runPlayback(
+    playback: NonNullable<OMEZarrNVImage["_playback"]>,
+    start: number,
+    intervalMs: number,
+    loop: boolean,
+    direction: PlaybackDirection,
+  ): Promise<void> {
+    const { signal } = playback.abortController
+    let index = start
+    let step = direction === "backward" ? -1 : 1
+    let frameStart = performance.now()
+
+    if (index !== this._timeIndex) {
+      if (!(await this._showPlaybackFrame(playback, index))) return
     }
 
-    // Recompute 3D resolution selection with new 3D viewport bounds
-    if (bounds3DChanged) {
-      const selection = selectResolution(
-        this.multiscales,
-        this.maxPixels,
-        this._clipPlanes,
-        this._volumeBounds,
-        this._viewportBounds3D ?? undefined,
+    for (;;) {
+      const remaining = intervalMs - (performance.now() - frameStart)
+      if (remaining > 0) {
+        await new Promise<void>((resolve) => {
+          const timeout = setTimeout(resolve, remaining)
+          signal.addEventListener(
+            "abort",
+            () => {
+              clearTimeout(timeout)
+              resolve()
+            },
+            { once: true },
+          )
+        })
+      }
+      if (signal.aborted) return
+
+      const next = this._nextPlaybackIndex(
+        index,
+        step,
+        playback.range,
+        loop,
+        direction,
       )
+      if (!next) {
+        this._endPlayback("ended")
+        return
+      }
+      index = next.index
+      step = next.step
 
-      if (selection.levelIndex !== this.targetLevelIndex) {
-        this.targetLevelIndex = selection.levelIndex
-        // Spatial region changed — cached time frames are stale
-        this._invalidateTimeFrameCache()
-        this.populateVolume(true, "viewportChanged")
+      frameStart = performance.now()
+      if (!(await this._showPlaybackFrame(playback, index))) return
+
+      // A load that overran the frame interval used up the slots of the
+      // frames that should have been shown in the meantime.
+      const elapsed = performance.now() - frameStart
+      if (elapsed > intervalMs) {
+        playback.droppedFrames += Math.ceil(elapsed / intervalMs) - 1
       }
     }
+  }
 
-    // Reload slabs with new per-slab viewport bounds
-    if (slabBoundsChanged) {
-      this._reloadAllSlabs("viewportChanged")
+  /**
+   * Show one playback frame.
+   *
+   * @returns `false` if playback was aborted or ended by a load error
+   */
+  private async _showPlaybackFrame(
+    playback: NonNullable<OMEZarrNVImage["_playback"]>,
+    index: number,
+  ): Promise<boolean> {
+    try {
+      await this.setTimeIndex(index)
+    } catch (err) {
+      if (playback.abortController.signal.aborted) return false
+      console.error(`[fidnii] Error loading time index ${index}:`, err)
+      this._endPlayback("error")
+      return false
+    }
+    if (playback.abortController.signal.aborted) return false
+    // A frame whose load was superseded before it completed was never shown
+    if (this._loadedTimeIndex === index || this._timeRange4D) {
+      playback.framesShown++
+    } else {
+      playback.droppedFrames++
     }
+    return true
   }
 
   /**
-   * Reload all active slabs (for all slice types that have buffers).
+   * Compute the next playback index and step.
+   *
+   * `"pingpong"` bounces at both ends of the range; without looping it
+   * ends after returning to the range start.
+   *
+   * @returns The next index and step, or `null` when playback has ended
    */
-  private _reloadAllSlabs(trigger: PopulateTrigger): void {
-    for (const [sliceType, slabState] of this._slabBuffers) {
-      // Find the world coordinate for this slab from any attached NV in this mode
-      for (const [nv, attachedState] of this._attachedNiivues) {
-        if (
-          this._isSlabSliceType(attachedState.currentSliceType) &&
-          (attachedState.currentSliceType as SlabSliceType) === sliceType
-        ) {
-          const crosshairPos = nv.scene?.crosshairPos
-          if (!crosshairPos || nv.volumes.length === 0) continue
-          try {
-            const mm = nv.frac2mm([
-              crosshairPos[0],
-              crosshairPos[1],
-              crosshairPos[2],
-            ])
-            // frac2mm returns values in the slab NVImage's mm space, which
-            // is normalized (world * normalizationScale). Convert back to
-            // physical world coordinates for worldToPixel and other callers.
-            const ns = slabState.normalizationScale
-            const worldCoord: [number, number, number] = [
-              mm[0] / ns,
-              mm[1] / ns,
-              mm[2] / ns,
-            ]
-            this._debouncedSlabReload(sliceType, worldCoord, trigger)
-          } catch {
-            // Can't convert coordinates yet
-          }
-          break
-        }
-      }
+  private _nextPlaybackIndex(
+    index: number,
+    step: number,
+    range: [number, number],
+    loop: boolean,
+    direction: PlaybackDirection,
+  ): { index: number; step: number } | null {
+    const [first, last] = range
+    const next = index + step
+    if (next >= first && next <= last) return { index: next, step }
+
+    if (direction === "pingpong") {
+      if (step < 0 && !loop) return null
+      const bounced = index - step
+      if (bounced < first || bounced > last) return { index, step: -step }
+      return { index: bounced, step: -step }
+    }
+
+    if (!loop) return null
+    return { index: step > 0 ? first : last, step }
+  }
+
+  /**
+   * End the running playback and emit `playbackStop`.
+   * Does nothing when not playing.
+   */
+  private _endPlayback(
+    reason: OMEZarrNVImageEventMap["playbackStop"]["reason"],
+  ): void {
+    const playback = this._playback
+    if (!playback) return
+    playback.abortController.abort()
+    this._playback = null
+    this._emitEvent("playbackStop", {
+      reason,
+      index: this._timeIndex,
+      framesShown: playback.framesShown,
+      droppedFrames: playback.droppedFrames,
+    })
+  }
+
+  /**
+   * Cancel time frame pre-fetching for the previous region.
+   *
+   * Called internally when the spatial region or resolution changes
+   * (clip planes, viewport, resolution level). In-flight slab pre-fetches
+   * are cancelled as well. Cached frames are kept: they are keyed by level
+   * and region, so they are reused when the user returns to a previous
+   * region.
+   */
+  private _cancelTimeFramePrefetch(): void {
+    this._prefetchRegion = null
+    // Cancel any in-flight pre-fetches
+    if (this._prefetchAbortController) {
+      this._prefetchAbortController.abort()
+      this._prefetchAbortController = null
+    }
+    for (const controller of this._slabPrefetchAbortControllers.values()) {
+      controller.abort()
+    }
+    this._slabPrefetchAbortControllers.clear()
+    this._prefetchingTimeFrames.clear()
+  }
+
+  /**
+   * Pre-fetch time frames adjacent to `centerIndex` for the 3D volume.
+   *
+   * @param centerIndex - The time index to pre-fetch around
+   */
+  private _prefetchAdjacentFrames(centerIndex: number): void {
+    if (!this._prefetchRegion) return
+
+    // Cancel any previous pre-fetch batch
+    if (this._prefetchAbortController) {
+      this._prefetchAbortController.abort()
+    }
+    const abortController = new AbortController()
+    this._prefetchAbortController = abortController
+
+    this._prefetchFrames(
+      centerIndex,
+      this._prefetchRegion,
+      "prefetch",
+      abortController.signal,
+    )
+  }
+
+  /**
+   * Pre-fetch time frames adjacent to `centerIndex` for one slab, at the
+   * region of its last load (the current `slabStart`/`slabEnd` window).
+   *
+   * @param sliceType - The slab to pre-fetch for
+   * @param centerIndex - The time index to pre-fetch around
+   */
+  private _prefetchSlabFrames(
+    sliceType: SlabSliceType,
+    centerIndex: number,
+  ): void {
+    const loaded = this._lastLoadedSlabRegions.get(sliceType)
+    if (!loaded) return
+
+    // Cancel this slab's previous pre-fetch batch
+    const previous = this._slabPrefetchAbortControllers.get(sliceType)
+    if (previous) previous.abort()
+    const abortController = new AbortController()
+    this._slabPrefetchAbortControllers.set(sliceType, abortController)
+
+    this._prefetchFrames(
+      centerIndex,
+      loaded,
+      `prefetch-${SLICE_TYPE[sliceType]}`,
+      abortController.signal,
+    )
+  }
+
+  /**
+   * Pre-fetch adjacent time frames of a region in the background.
+   *
+   * Fetches frames `[index - N, index + N]` (clamped to valid range)
+   * at the given resolution level and spatial region into the time frame
+   * cache. Already-cached and currently-in-flight frames are skipped.
+   *
+   * @param centerIndex - The time index to pre-fetch around
+   * @param loaded - Region and resolution level to pre-fetch
+   * @param requesterPrefix - Prefix of the coalescer requester IDs
+   * @param signal - Aborted when the batch is superseded
+   */
+  private _prefetchFrames(
+    centerIndex: number,
+    loaded: LoadedRegion,
+    requesterPrefix: string,
+    signal: AbortSignal,
+  ): void {
+    const cache = this._timeFrameCache
+    if (!this._timeAxisInfo || !cache || this._timePrefetchCount <= 0) return
+    // 4D volumes already hold every frame of the range
+    if (this._timeRange4D) return
+
+    const { region, levelIndex, culling } = loaded
+    const ngffImage = this.multiscales.images[levelIndex]
+
+    // Collect indices to pre-fetch
+    const indices: number[] = []
+    for (let delta = 1; delta <= this._timePrefetchCount; delta++) {
+      const before = centerIndex - delta
+      const after = centerIndex + delta
+      if (before >= 0) indices.push(before)
+      if (after < this._timeAxisInfo.count) indices.push(after)
+    }
+
+    // Filter out already cached and in-flight frames
+    const toFetch = indices.filter((i) => {
+      const key = this._timeFrameKey(levelIndex, region, i, culling)
+      return !cache.has(key) && !this._prefetchingTimeFrames.has(key)
+    })
+
+    if (toFetch.length === 0) return
+
+    const fetchRegion: PixelRegion = {
+      start: region.chunkAlignedStart,
+      end: region.chunkAlignedEnd,
+    }
+
+    // Fire-and-forget pre-fetches
+    for (const timeIdx of toFetch) {
+      if (signal.aborted) break
+
+      const key = this._timeFrameKey(levelIndex, region, timeIdx, culling)
+      this._prefetchingTimeFrames.add(key)
+
+      const requesterId = `${requesterPrefix}-t${timeIdx}`
+      const channelIndex = this._channelIndex ?? undefined
+      const fetched = culling
+        ? this.coalescer.fetchChunks(
+            ngffImage,
+            levelIndex,
+            fetchRegion,
+            culling.chunks,
+            requesterId,
+            timeIdx,
+            undefined,
+            channelIndex,
+          )
+        : this.coalescer.fetchRegion(
+            ngffImage,
+            levelIndex,
+            fetchRegion,
+            requesterId,
+            timeIdx,
+            undefined,
+            channelIndex,
+          )
+      void fetched
+        .then((result) => {
+          if (signal.aborted) return
+
+          const shape: [number, number, number] = [
+            region.chunkAlignedEnd[0] - region.chunkAlignedStart[0],
+            region.chunkAlignedEnd[1] - region.chunkAlignedStart[1],
+            region.chunkAlignedEnd[2] - region.chunkAlignedStart[2],
+          ]
+
+          // Store a copy so the original fetch result can be GC'd
+          cache.set(key, {
+            data: result.data.slice() as TypedArray,
+            shape,
+            levelIndex,
+            region,
+          })
+        })
+        .catch(() => {
+          // Silently ignore pre-fetch failures (non-critical)
+        })
+        .finally(() => {
+          this._prefetchingTimeFrames.delete(key)
+        })
+    }
+  }
+
+  /**
+   * Time frame cache key for a resolution level, region and time index.
+   * Frames fetched with chunk culling also depend on the clip planes.
+   */
+  private _timeFrameKey(
+    levelIndex: number,
+    region: ChunkAlignedRegion,
+    timeIndex: number,
+    culling?: ChunkCulling | null,
+  ): string {
+    const start = region.chunkAlignedStart.join(",")
+    const end = region.chunkAlignedEnd.join(",")
+    const key = `${levelIndex}:${start}:${end}:t${timeIndex}`
+    return culling ? `${key}:clip${culling.key}` : key
+  }
+
+  /**
+   * Memory used by a cached time frame in bytes.
+   *
+   * Frames hold raw fetched data, so the size is the voxel count times the
+   * fetched components per voxel times the bytes per element of the zarr
+   * dtype.
+   */
+  private _timeFrameByteSize(frame: CachedTimeFrame): number {
+    const voxels = frame.shape[0] * frame.shape[1] * frame.shape[2]
+    const components = this._isMultiComponent
+      ? (this._channelInfo?.components ?? 1)
+      : 1
+    return Math.max(1, voxels * components * getBytesPerPixel(this.dtype))
+  }
+
+  // ============================================================
+  // Viewport-Aware Resolution
+  // ============================================================
+
+  /**
+   * Enable or disable viewport-aware resolution selection.
+   *
+   * When enabled, pan/zoom/rotation interactions are monitored and the fetch
+   * region is constrained to the visible viewport area. This allows higher
+   * resolution within the same `maxPixels` budget when zoomed in.
+   *
+   * @param enabled - Whether to enable viewport-aware resolution
+   */
+  setViewportAware(enabled: boolean): void {
+    if (enabled === this._viewportAwareEnabled) return
+    this._viewportAwareEnabled = enabled
+
+    if (enabled) {
+      // Hook viewport events on all attached NVs
+      for (const [nv, state] of this._attachedNiivues) {
+        this._hookViewportEvents(nv, state)
+      }
+      // Compute initial viewport bounds and trigger refetch
+      this._recomputeViewportBounds()
+    } else {
+      // Unhook viewport events on all attached NVs
+      for (const [nv, state] of this._attachedNiivues) {
+        this._unhookViewportEvents(nv, state)
+      }
+      // Clear viewport bounds and refetch at full volume
+      this._viewportBounds3D = null
+      this._viewportBoundsPerSlab.clear()
+      if (this._viewportUpdateTimeout) {
+        clearTimeout(this._viewportUpdateTimeout)
+        this._viewportUpdateTimeout = null
+      }
+      // Recompute resolution without viewport constraint
+      const selection = selectResolution(
+        this.multiscales,
+        this.maxPixels,
+        this._clipPlanes,
+        this._volumeBounds,
+        undefined,
+        this._framesPerLoad,
+      )
+      if (selection.levelIndex !== this.targetLevelIndex) {
+        this.targetLevelIndex = selection.levelIndex
+        // Spatial region changed — stop pre-fetching the old region
+        this._cancelTimeFramePrefetch()
+        this.populateVolume(true, "viewportChanged")
+      }
+      // Also reload slabs without viewport constraint
+      this._reloadAllSlabs("viewportChanged")
+    }
+  }
+
+  /**
+   * Get whether viewport-aware resolution selection is enabled.
+   */
+  get viewportAware(): boolean {
+    return this._viewportAwareEnabled
+  }
+
+  /**
+   * Get the current 3D viewport bounds (null if viewport-aware is disabled
+   * or no viewport constraint is active).
+   */
+  getViewportBounds(): VolumeBounds | null {
+    if (!this._viewportBounds3D) return null
+    return {
+      min: [...this._viewportBounds3D.min] as [number, number, number],
+      max: [...this._viewportBounds3D.max] as [number, number, number],
+    }
+  }
+
+  /**
+   * Hook viewport events (mouseUp, zoom3DChange, wheel) on a NV instance.
+   * All listeners share a single AbortController so they can be torn down
+   * together via {@link _unhookViewportEvents}.
+   */
+  private _hookViewportEvents(nv: Niivue, state: AttachedNiivueState): void {
+    const controller = new AbortController()
+    state.viewportAbortController = controller
+    const signal = controller.signal
+
+    // Detect end of mouse/touch interaction
+    nv.addEventListener(
+      "mouseUp",
+      () => {
+        this._handleViewportInteractionEnd(nv)
+      },
+      { signal },
+    )
+
+    // Detect 3D zoom level changes
+    nv.addEventListener(
+      "zoom3DChange",
+      () => {
+        this._handleViewportInteractionEnd(nv)
+      },
+      { signal },
+    )
+
+    // Detect scroll-wheel zoom on the canvas
+    if (nv.canvas) {
+      nv.canvas.addEventListener(
+        "wheel",
+        () => {
+          this._handleViewportInteractionEnd(nv)
+        },
+        { signal, passive: true },
+      )
+    }
+  }
+
+  /**
+   * Unhook viewport events from a NV instance.
+   */
+  private _unhookViewportEvents(_nv: Niivue, state: AttachedNiivueState): void {
+    if (state.viewportAbortController) {
+      state.viewportAbortController.abort()
+      state.viewportAbortController = undefined
+    }
+  }
+
+  // ============================================================
+  // 3D Zoom Override
+  // ============================================================
+
+  /**
+   * Install a capturing-phase wheel listener on the NV canvas that overrides
+   * NiiVue's hardcoded 3D render zoom clamp ([0.5, 2.0]).
+   *
+   * The listener intercepts scroll events over 3D render tiles and applies
+   * zoom via `nv.setScale()` (which has no internal clamp), using the
+   * configurable `_min3DZoom` / `_max3DZoom` bounds instead.
+   *
+   * Clip-plane scrolling is preserved: when a clip plane is active
+   * (depth < 1.8), the event passes through to NiiVue's native handler.
+   */
+  private _hookZoomOverride(nv: Niivue, state: AttachedNiivueState): void {
+    if (!nv.canvas) return
+
+    const controller = new AbortController()
+    state.zoomOverrideAbortController = controller
+
+    nv.canvas.addEventListener(
+      "wheel",
+      (e: WheelEvent) => {
+        // Convert mouse position to DPR-scaled canvas coordinates
+        const canvas = nv.canvas
+        if (!canvas) return
+        const rect = canvas.getBoundingClientRect()
+        const dpr = nv.uiData.dpr ?? 1
+        const x = (e.clientX - rect.left) * dpr
+        const y = (e.clientY - rect.top) * dpr
+
+        // Only intercept if mouse is over a 3D render tile
+        if (nv.inRenderTile(x, y) < 0) return
+
+        // Preserve clip-plane scrolling: when a clip plane is active
+        // (depth < 1.8), let NiiVue handle the event normally.
+        const clips = nv.scene.clipPlaneDepthAziElevs
+        const activeIdx = nv.uiData.activeClipPlaneIndex
+        if (
+          nv.volumes.length > 0 &&
+          clips?.[activeIdx]?.[0] !== undefined &&
+          clips[activeIdx][0] < 1.8
+        ) {
+          return
+        }
+
+        // Prevent NiiVue's clamped handler from running.
+        // NiiVue registers its listener in the bubbling phase, so our
+        // capturing-phase listener fires first. stopImmediatePropagation
+        // ensures no other same-element listeners fire either.
+        e.stopImmediatePropagation()
+        e.preventDefault()
+
+        // Compute new zoom (same ×1.1 / ×0.9 per step as NiiVue).
+        // Round to 2 decimal places (NiiVue rounds to 1, which causes the
+        // zoom to get stuck at small values like 0.5 where ×0.9 rounds back).
+        const zoomDir = e.deltaY < 0 ? 1 : -1
+        const current = nv.scene.volScaleMultiplier
+        let newZoom = current * (zoomDir > 0 ? 1.1 : 0.9)
+        newZoom = Math.round(newZoom * 100) / 100
+        newZoom = Math.max(this._min3DZoom, Math.min(this._max3DZoom, newZoom))
+
+        nv.setScale(newZoom)
+
+        // Notify the viewport-aware system. Since we stopped propagation,
+        // the passive wheel listener from _hookViewportEvents won't fire,
+        // so we call this directly.
+        this._handleViewportInteractionEnd(nv)
+      },
+      { capture: true, signal: controller.signal },
+    )
+  }
+
+  /**
+   * Remove the 3D zoom override wheel listener from a NV instance.
+   */
+  private _unhookZoomOverride(_nv: Niivue, state: AttachedNiivueState): void {
+    if (state.zoomOverrideAbortController) {
+      state.zoomOverrideAbortController.abort()
+      state.zoomOverrideAbortController = undefined
+    }
+  }
+
+  /**
+   * Called at the end of any viewport interaction (mouse up, touch end,
+   * zoom change, scroll wheel). Debounces the viewport bounds recomputation.
+   */
+  private _handleViewportInteractionEnd(_nv: Niivue): void {
+    if (!this._viewportAwareEnabled) return
+
+    // Debounce: clear any pending update and schedule a new one
+    if (this._viewportUpdateTimeout) {
+      clearTimeout(this._viewportUpdateTimeout)
+    }
+    this._viewportUpdateTimeout = setTimeout(() => {
+      this._viewportUpdateTimeout = null
+      this._recomputeViewportBounds()
+    }, OMEZarrNVImage.VIEWPORT_DEBOUNCE_MS)
+  }
+
+  /**
+   * Recompute viewport bounds from all attached NV instances and trigger
+   * resolution reselection if bounds changed significantly.
+   */
+  private _recomputeViewportBounds(): void {
+    if (!this._viewportAwareEnabled) return
+
+    // Compute separate viewport bounds for:
+    // - 3D volume: union of all RENDER/MULTIPLANAR NV viewport bounds
+    // - Per-slab: each slab type gets its own NV's viewport bounds
+    let new3DBounds: VolumeBounds | null = null
+    const newSlabBounds = new Map<SlabSliceType, VolumeBounds | null>()
+
+    for (const [nv, state] of this._attachedNiivues) {
+      if (
+        state.currentSliceType === SLICE_TYPE.RENDER ||
+        state.currentSliceType === SLICE_TYPE.MULTIPLANAR
+      ) {
+        // 3D render mode: compute from orthographic frustum
+        const nvBounds = computeViewportBounds3D(nv, this._volumeBounds)
+        if (!new3DBounds) {
+          new3DBounds = nvBounds
+        } else {
+          // Union of multiple 3D views
+          new3DBounds = {
+            min: [
+              Math.min(new3DBounds.min[0], nvBounds.min[0]),
+              Math.min(new3DBounds.min[1], nvBounds.min[1]),
+              Math.min(new3DBounds.min[2], nvBounds.min[2]),
+            ],
+            max: [
+              Math.max(new3DBounds.max[0], nvBounds.max[0]),
+              Math.max(new3DBounds.max[1], nvBounds.max[1]),
+              Math.max(new3DBounds.max[2], nvBounds.max[2]),
+            ],
+          }
+        }
+      } else if (this._isSlabSliceType(state.currentSliceType)) {
+        // 2D slice mode: compute from pan/zoom
+        const sliceType = state.currentSliceType as SlabSliceType
+        const slabState = this._slabBuffers.get(sliceType)
+        const normScale = slabState?.normalizationScale ?? 1.0
+        const nvBounds = computeViewportBounds2D(
+          nv,
+          state.currentSliceType,
+          this._volumeBounds,
+          normScale,
+        )
+        newSlabBounds.set(sliceType, nvBounds)
+      }
+    }
+
+    // Check if 3D bounds changed
+    const bounds3DChanged =
+      !new3DBounds !== !this._viewportBounds3D ||
+      (new3DBounds &&
+        this._viewportBounds3D &&
+        !boundsApproxEqual(new3DBounds, this._viewportBounds3D))
+
+    // Check if any slab bounds changed
+    let slabBoundsChanged = false
+    for (const [sliceType, newBounds] of newSlabBounds) {
+      const oldBounds = this._viewportBoundsPerSlab.get(sliceType) ?? null
+      if (
+        !newBounds !== !oldBounds ||
+        (newBounds && oldBounds && !boundsApproxEqual(newBounds, oldBounds))
+      ) {
+        slabBoundsChanged = true
+        break
+      }
+    }
+
+    if (!bounds3DChanged && !slabBoundsChanged) return
+
+    // Update stored bounds
+    this._viewportBounds3D = new3DBounds
+    for (const [sliceType, bounds] of newSlabBounds) {
+      this._viewportBoundsPerSlab.set(sliceType, bounds)
+    }
+
+    // Recompute 3D resolution selection with new 3D viewport bounds
+    if (bounds3DChanged) {
+      const selection = selectResolution(
+        this.multiscales,
+        this.maxPixels,
+        this._clipPlanes,
+        this._volumeBounds,
+        this._viewportBounds3D ?? undefined,
+        this._framesPerLoad,
+      )
+
+      if (selection.levelIndex !== this.targetLevelIndex) {
+        this.targetLevelIndex = selection.levelIndex
+        // Spatial region changed — stop pre-fetching the old region
+        this._cancelTimeFramePrefetch()
+        this.populateVolume(true, "viewportChanged")
+      }
+    }
+
+    // Reload slabs with new per-slab viewport bounds
+    if (slabBoundsChanged) {
+      this._reloadAllSlabs("viewportChanged")
+    }
+  }
+
+  /**
+   * Reload all active slabs (for all slice types that have buffers).
+   */
+  private _reloadAllSlabs(trigger: PopulateTrigger): void {
+    for (const [sliceType, slabState] of this._slabBuffers) {
+      // Find the world coordinate for this slab from any attached NV in this mode
+      for (const [nv, attachedState] of this._attachedNiivues) {
+        if (
+          this._isSlabSliceType(attachedState.currentSliceType) &&
+          (attachedState.currentSliceType as SlabSliceType) === sliceType
+        ) {
+          const crosshairPos = nv.scene?.crosshairPos
+          if (!crosshairPos || nv.volumes.length === 0) continue
+          try {
+            const mm = nv.frac2mm([
+              crosshairPos[0],
+              crosshairPos[1],
+              crosshairPos[2],
+            ])
+            // frac2mm returns values in the slab NVImage's mm space, which
+            // is normalized (world * normalizationScale). Convert back to
+            // physical world coordinates for worldToPixel and other callers.
+            const ns = slabState.normalizationScale
+            const worldCoord: [number, number, number] = [
+              mm[0] / ns,
+              mm[1] / ns,
+              mm[2] / ns,
+            ]
+            if (trigger === "timeChanged") {
+              // Time navigation keeps the slab position, so load right away
+              // instead of waiting out the slice-scrolling debounce.
+              void this._loadSlab(sliceType, worldCoord, trigger)
+            } else {
+              this._debouncedSlabReload(sliceType, worldCoord, trigger)
+            }
+          } catch {
+            // Can't convert coordinates yet
+          }
+          break
+        }
+      }
+    }
+  }
+
+  /**
+   * Get whether the image is currently loading.
+   */
+  getIsLoading(): boolean {
+    return this.isLoading
+  }
+
+  /**
+   * Wait for all async work to settle: debounced timers (clip plane
+   * refetch, viewport update, slab reload), the main `populateVolume`
+   * pipeline, all slab loads, label overlay loads, and in-flight
+   * coalescer fetches.
+   *
+   * The method polls in a loop because debounced timers may fire while
+   * we are waiting, triggering new loads. It only resolves once every
+   * source of async work is idle simultaneously.
+   */
+  async waitForIdle(): Promise<void> {
+    // Polling interval for active-load checks (ms).
+    const POLL_MS = 50
+
+    while (true) {
+      // ---- Debounced timers ----
+      // Wait for pending debounce timers to fire (and potentially
+      // trigger new loads) before checking load state.
+
+      if (this.clipPlaneRefetchTimeout !== null) {
+        await new Promise<void>((r) =>
+          setTimeout(r, this.clipPlaneDebounceMs + POLL_MS),
+        )
+        continue
+      }
+
+      if (this._viewportUpdateTimeout !== null) {
+        await new Promise<void>((r) =>
+          setTimeout(r, OMEZarrNVImage.VIEWPORT_DEBOUNCE_MS + POLL_MS),
+        )
+        continue
+      }
+
+      if (this._slabReloadTimeouts.size > 0) {
+        // Slab reload debounce is 100 ms (hardcoded in
+        // _debouncedSlabReload).
+        await new Promise<void>((r) => setTimeout(r, 100 + POLL_MS))
+        continue
+      }
+
+      // ---- Active loads ----
+
+      if (this.isLoading || this._pendingPopulateRequest !== null) {
+        await new Promise<void>((r) => setTimeout(r, POLL_MS))
+        continue
+      }
+
+      let slabBusy = false
+      for (const slabState of this._slabBuffers.values()) {
+        if (slabState.isLoading || slabState.pendingReload !== null) {
+          slabBusy = true
+          break
+        }
+      }
+      if (slabBusy) {
+        await new Promise<void>((r) => setTimeout(r, POLL_MS))
+        continue
+      }
+
+      if (this._labelOverlays.some((o) => o._overlayAbortController !== null)) {
+        await new Promise<void>((r) => setTimeout(r, POLL_MS))
+        continue
+      }
+
+      // ---- In-flight fetches ----
+
+      await this.coalescer.onIdle()
+
+      // ---- Convergence check ----
+      // A debounce timer or pending request may have appeared while we
+      // were awaiting the coalescer. If so, loop again.
+
+      const stillBusy =
+        this.isLoading ||
+        this._pendingPopulateRequest !== null ||
+        this.clipPlaneRefetchTimeout !== null ||
+        this._viewportUpdateTimeout !== null ||
+        this._slabReloadTimeouts.size > 0 ||
+        Array.from(this._slabBuffers.values()).some(
+          (s) => s.isLoading || s.pendingReload !== null,
+        ) ||
+        this._labelOverlays.some((o) => o._overlayAbortController !== null)
+
+      if (!stillBusy) break
+    }
+  }
+
+  // ============================================================
+  // OMERO Metadata (Visualization Parameters)
+  // ============================================================
+
+  /**
+   * Get OMERO metadata (if available).
+   *
+   * Returns the existing OMERO metadata from the OME-Zarr file,
+   * or the computed OMERO metadata if none was present in the file.
+   *
+   * OMERO metadata includes per-channel visualization parameters:
+   * - window.min/max: The actual data range
+   * - window.start/end: The display window (based on quantiles)
+   * - color: Hex color for the channel
+   * - label: Channel name
+   *
+   * @returns OMERO metadata or undefined if not yet loaded/computed
+   */
+  getOmero(): Omero | undefined {
+    return this._omero
+  }
+
+  /**
+   * Get the active channel index used for OMERO window selection.
+   *
+   * For multi-channel images, this determines which channel's
+   * cal_min/cal_max values are applied to the NiiVue display.
+   *
+   * @returns Current active channel index (0-based)
+   */
+  getActiveChannel(): number {
+    return this._activeChannel
+  }
+
+  /**
+   * Set the active channel for OMERO window selection.
+   *
+   * For multi-channel images, this determines which channel's
+   * window (cal_min/cal_max) values are applied to the NiiVue display.
+   *
+   * Changing the active channel immediately updates the display intensity
+   * range and refreshes the NiiVue rendering.
+   *
+   * @param index - Channel index (0-based)
+   * @throws Error if no OMERO metadata is available
+   * @throws Error if index is out of range
+   *
+   * @example
+   * ```typescript
+   * // Get number of channels
+   * const omero = image.getOmero();
+   * if (omero) {
+   *   console.log(`${omero.channels.length} channels available`);
+   *   // Switch to channel 1
+   *   image.setActiveChannel(1);
+   * }
+   * ```
+   */
+  setActiveChannel(index: number): void {
+    if (!this._omero?.channels?.length) {
+      throw new Error("No OMERO metadata available")
+    }
+    if (index < 0 || index >= this._omero.channels.length) {
+      throw new Error(
+        `Invalid channel index: ${index} (have ${this._omero.channels.length} channels)`,
+      )
+    }
+    this._activeChannel = index
+    this.applyOmeroToHeader()
+    this.niivue.updateGLVolume()
+    this._widenCalRangeIfNeeded(this)
+  }
+
+  /**
+   * Set the display window of a channel.
+   *
+   * Updates the channel's OMERO `window.start`/`window.end`. For scalar
+   * images (and single selected channels) the window of the active channel
+   * is applied to `cal_min`/`cal_max` immediately. For composites and
+   * normalized RGB, where the window is baked into the pixel data, the
+   * volume and slabs are re-normalized by reloading them (decoded chunks
+   * are served from the chunk cache).
+   *
+   * An explicitly set window is displayed as-is: it is no longer widened
+   * to the data range of higher resolution levels.
+   *
+   * @param index - Channel index (0-based)
+   * @param window - Display window in data units
+   * @throws Error if no OMERO metadata is available
+   * @throws Error if index is out of range
+   * @throws Error if `start` is not less than `end`
+   *
+   * @example
+   * ```typescript
+   * image.setChannelWindow(0, { start: 100, end: 2500 });
+   * ```
+   */
+  setChannelWindow(index: number, window: ChannelWindow): void {
+    if (!(window.start < window.end)) {
+      throw new Error(
+        `Invalid channel window: start (${window.start}) must be less than end (${window.end})`,
+      )
+    }
+    const channel = this._getEditableOmeroChannel(index)
+    channel.window = { ...channel.window, start: window.start, end: window.end }
+    this._editedWindows.add(index)
+    this._refreshOmeroDisplay(index, "window")
+  }
+
+  /**
+   * Set the display color of a channel.
+   *
+   * Updates the channel's OMERO `color` and re-renders composites. Scalar
+   * images keep their colormap; the color is stored for reference.
+   *
+   * @param index - Channel index (0-based)
+   * @param color - Hex color, with or without a leading `#` (e.g. `"FF00FF"`)
+   * @throws Error if no OMERO metadata is available
+   * @throws Error if index is out of range
+   * @throws Error if `color` is not a 6-digit hex color
+   */
+  setChannelColor(index: number, color: string): void {
+    const hex = color.startsWith("#") ? color.slice(1) : color
+    if (!/^[0-9a-fA-F]{6}$/.test(hex)) {
+      throw new Error(`Invalid channel color: '${color}' (expected RRGGBB)`)
+    }
+    const channel = this._getEditableOmeroChannel(index)
+    channel.color = hex.toUpperCase()
+    this._refreshOmeroDisplay(index, "color")
+  }
+
+  /**
+   * Show or hide a channel.
+   *
+   * Updates the channel's OMERO `active` flag. Inactive channels are left
+   * out of composites.
+   *
+   * @param index - Channel index (0-based)
+   * @param visible - Whether the channel contributes to the composite
+   * @throws Error if no OMERO metadata is available
+   * @throws Error if index is out of range
+   */
+  setChannelVisible(index: number, visible: boolean): void {
+    const channel = this._getEditableOmeroChannel(index)
+    channel.active = visible
+    this._refreshOmeroDisplay(index, "visible")
+  }
+
+  /**
+   * Get an OMERO channel for editing.
+   *
+   * On the first edit `_omero` is replaced by a copy so the multiscales
+   * metadata passed to {@link create} is never modified.
+   *
+   * @throws Error if no OMERO metadata is available
+   * @throws Error if index is out of range
+   */
+  private _getEditableOmeroChannel(index: number): OmeroChannel {
+    if (!this._omero?.channels?.length) {
+      throw new Error("No OMERO metadata available")
+    }
+    if (index < 0 || index >= this._omero.channels.length) {
+      throw new Error(
+        `Invalid channel index: ${index} (have ${this._omero.channels.length} channels)`,
+      )
+    }
+    if (!this._omeroEdited) {
+      this._omero = {
+        ...this._omero,
+        channels: this._omero.channels.map((channel) => ({
+          ...channel,
+          window: { ...channel.window },
+        })),
+      }
+      this._omeroEdited = true
+    }
+    return this._omero.channels[index]
+  }
+
+  /**
+   * Apply edited OMERO settings to the display and emit `omeroChange`.
+   *
+   * When the OMERO settings are baked into the pixel data (composites and
+   * normalized RGB) the volume and active slabs are reloaded. Otherwise
+   * the active channel's window is copied into the 3D and slab headers.
+   */
+  private _refreshOmeroDisplay(
+    channelIndex: number,
+    change: "window" | "color" | "visible",
+  ): void {
+    const ngffImage = this.multiscales.images[this.currentLevelIndex]
+    if (this._usesChannelWindows(ngffImage)) {
+      this._reloadAllSlabs("omeroChanged")
+      void this.populateVolume(true, "omeroChanged")
+    } else if (
+      change === "window" &&
+      channelIndex === this._activeChannel &&
+      !this.isLabelImage
+    ) {
+      // NiiVue only reads hdr.cal_min/cal_max when it recomputes the
+      // intensity range, so copy the window into the runtime range too.
+      const volumes: NVImage[] = [this]
+      for (const slabState of this._slabBuffers.values()) {
+        volumes.push(slabState.nvImage)
+      }
+      for (const nvImage of volumes) {
+        this._applyOmeroToSlabHeader(nvImage)
+        if (nvImage.hdr) {
+          nvImage.cal_min = nvImage.hdr.cal_min
+          nvImage.cal_max = nvImage.hdr.cal_max
+        }
+      }
+      const niivues = new Set([this.niivue, ...this._attachedNiivues.keys()])
+      for (const nv of niivues) {
+        nv.updateGLVolume()
+      }
+    }
+
+    if (this._omero) {
+      this._emitEvent("omeroChange", {
+        omero: this._omero,
+        channelIndex,
+        change,
+      })
+    }
+  }
+
+  /**
+   * Show or hide label values of a label image.
+   *
+   * Only the alpha of the label colormap changes, in the 3D volume and
+   * all slab views; no data is refetched. After {@link isolateLabels},
+   * this adds labels to or removes them from the isolated set.
+   *
+   * @param ids - Label values to show or hide
+   * @param visible - Whether the labels are drawn
+   * @throws Error if this is not a label image
+   *
+   * @example
+   * ```typescript
+   * image.setLabelVisibility([3, 7], false);
+   * ```
+   */
+  setLabelVisibility(ids: number[], visible: boolean): void {
+    this._assertLabelImage()
+    for (const id of ids) {
+      if (this._isolatedLabels) {
+        if (visible) this._isolatedLabels.add(id)
+        else this._isolatedLabels.delete(id)
+      } else if (visible) {
+        this._hiddenLabels.delete(id)
+      } else {
+        this._hiddenLabels.add(id)
+      }
+    }
+    this._refreshLabelColormaps()
+  }
+
+  /**
+   * Set the opacity of one label value of a label image.
+   *
+   * The opacity scales the alpha of the label's color, in the 3D volume
+   * and all slab views, without refetching data.
+   *
+   * @param id - Label value
+   * @param alpha - Opacity from 0 (transparent) to 1 (the color's alpha)
+   * @throws Error if `alpha` is outside [0, 1]
+   * @throws Error if this is not a label image
+   */
+  setLabelOpacity(id: number, alpha: number): void {
+    if (!(alpha >= 0 && alpha <= 1)) {
+      throw new Error(`Invalid label opacity: ${alpha} (expected 0 to 1)`)
+    }
+    this._assertLabelImage()
+    if (alpha === 1) {
+      this._labelOpacity.delete(id)
+    } else {
+      this._labelOpacity.set(id, alpha)
+    }
+    this._refreshLabelColormaps()
+  }
+
+  /**
+   * Show only the given label values of a label image.
+   *
+   * Every other label, including labels loaded later, is hidden until
+   * `isolateLabels(null)` shows all labels again. No data is refetched.
+   *
+   * @param ids - Label values to show, or `null` to show all labels
+   * @throws Error if this is not a label image
+   *
+   * @example
+   * ```typescript
+   * image.isolateLabels([12]); // review one structure
+   * image.isolateLabels(null); // back to all labels
+   * ```
+   */
+  isolateLabels(ids: number[] | null): void {
+    this._assertLabelImage()
+    this._isolatedLabels = ids ? new Set(ids) : null
+    this._hiddenLabels.clear()
+    this._refreshLabelColormaps()
+  }
+
+  /**
+   * Load a label image as an overlay that follows this image.
+   *
+   * The overlay is a label `OMEZarrNVImage` displayed on top of this image
+   * in the 3D view. Every time this image loads, the overlay is fetched
+   * with the same clip planes, viewport bounds and time index, at the
+   * resolution level whose voxel size best matches the loaded level.
+   *
+   * Overlays are 3D only: 2D slab views (see {@link attachNiivue}) show
+   * this image's slabs without its overlays, which are removed from a
+   * viewer while it shows a slab.
+   *
+   * @param source - Label multiscales, or a path to a label group relative
+   *   to this image's multiscales group (e.g. `"labels/nuclei"`) or a URL
+   * @returns The overlay, e.g. for {@link setLabelVisibility}
+   *
+   * @example
+   * ```typescript
+   * const nuclei = await image.addLabelOverlay("labels/nuclei");
+   * nuclei.setLabelOpacity(3, 0.5);
+   * ```
+   */
+  async addLabelOverlay(source: Multiscales | string): Promise<OMEZarrNVImage> {
+    const multiscales =
+      typeof source === "string"
+        ? await openLabelMultiscales(this.multiscales, source)
+        : source
+    const overlay = new OMEZarrNVImage({
+      multiscales,
+      niivue: this.niivue,
+      labelImage: true,
+      maskClipPlanes: this._maskClipPlanes,
+    })
+    overlay._imageLabel = await readImageLabelMetadata(multiscales)
+    overlay._labelInfo = parseImageLabelMetadata(overlay._imageLabel)
+    overlay._overlayParent = this
+    this._labelOverlays.push(overlay)
+
+    if (this.niivue.volumes.includes(this)) {
+      this.niivue.addVolume(overlay)
+    }
+    const loaded = this._lastLoadedRegion
+    if (loaded) {
+      await this._syncLabelOverlays(
+        this.multiscales.images[loaded.levelIndex],
+        "overlay",
+        this._timeIndex,
+      )
     }
+    return overlay
   }
 
   /**
-   * Get whether the image is currently loading.
+   * Remove a label overlay added with {@link addLabelOverlay}.
+   *
+   * @param overlay - The overlay to remove
    */
-  getIsLoading(): boolean {
-    return this.isLoading
+  removeLabelOverlay(overlay: OMEZarrNVImage): void {
+    const index = this._labelOverlays.indexOf(overlay)
+    if (index === -1) return
+    this._labelOverlays.splice(index, 1)
+    overlay._overlayParent = null
+    overlay._overlayAbortController?.abort()
+    if (this.niivue.volumes.includes(overlay)) {
+      this.niivue.removeVolume(overlay)
+    }
   }
 
   /**
-   * Wait for all async work to settle: debounced timers (clip plane
-   * refetch, viewport update, slab reload), the main `populateVolume`
-   * pipeline, all slab loads, and in-flight coalescer fetches.
-   *
-   * The method polls in a loop because debounced timers may fire while
-   * we are waiting, triggering new loads. It only resolves once every
-   * source of async work is idle simultaneously.
+   * Get the label overlays added with {@link addLabelOverlay}.
    */
-  async waitForIdle(): Promise<void> {
-    // Polling interval for active-load checks (ms).
-    const POLL_MS = 50
-
-    while (true) {
-      // ---- Debounced timers ----
-      // Wait for pending debounce timers to fire (and potentially
-      // trigger new loads) before checking load state.
-
-      if (this.clipPlaneRefetchTimeout !== null) {
-        await new Promise<void>((r) =>
-          setTimeout(r, this.clipPlaneDebounceMs + POLL_MS),
-        )
-        continue
-      }
+  getLabelOverlays(): OMEZarrNVImage[] {
+    return [...this._labelOverlays]
+  }
 
-      if (this._viewportUpdateTimeout !== null) {
-        await new Promise<void>((r) =>
-          setTimeout(r, OMEZarrNVImage.VIEWPORT_DEBOUNCE_MS + POLL_MS),
-        )
-        continue
-      }
+  /**
+   * Load every label overlay for the region, time point and resolution
+   * level just loaded by this image. Failures are logged, so an overlay
+   * never fails the load of its parent.
+   *
+   * @param ngffImage - The resolution level loaded by this image
+   * @param requesterId - ID for request coalescing
+   * @param timeIndex - The time point loaded by this image
+   * @param signal - Optional AbortSignal to cancel the fetches
+   */
+  private async _syncLabelOverlays(
+    ngffImage: NgffImage,
+    requesterId: string,
+    timeIndex: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    await Promise.all(
+      this._labelOverlays.map(async (overlay) => {
+        try {
+          await overlay._loadAsOverlay(
+            ngffImage,
+            requesterId,
+            timeIndex,
+            signal,
+          )
+        } catch (err) {
+          if (!signal?.aborted) {
+            console.error("[fidnii] Label overlay load failed:", err)
+          }
+        }
+      }),
+    )
+  }
 
-      if (this._slabReloadTimeouts.size > 0) {
-        // Slab reload debounce is 100 ms (hardcoded in
-        // _debouncedSlabReload).
-        await new Promise<void>((r) => setTimeout(r, 100 + POLL_MS))
-        continue
+  /**
+   * Load this label overlay like its parent: copy the parent's clip
+   * planes, viewport bounds and time index, then load the level whose
+   * voxel size best matches the parent's.
+   *
+   * Loads are serialized, latest wins: a new load aborts the previous one
+   * and starts once it has settled, so a slow load of a stale time index
+   * or level never lands after a newer one. The load is also aborted with
+   * `signal`.
+   */
+  private async _loadAsOverlay(
+    parentImage: NgffImage,
+    requesterId: string,
+    timeIndex: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    this._overlayAbortController?.abort()
+    const controller = new AbortController()
+    this._overlayAbortController = controller
+    const abort = () => controller.abort()
+    signal?.addEventListener("abort", abort, { once: true })
+    if (signal?.aborted) controller.abort()
+
+    const previous = this._overlayLoad
+    const load = (async () => {
+      await previous
+      const parent = this._overlayParent
+      if (!parent || controller.signal.aborted) return
+
+      this._clipPlanes = this.copyClipPlanes(parent._clipPlanes)
+      this._viewportBounds3D = parent._viewportBounds3D
+      if (this._timeAxisInfo) {
+        this._timeIndex = Math.min(timeIndex, this._timeAxisInfo.count - 1)
       }
 
-      // ---- Active loads ----
+      const levelIndex = this._matchLevelTo(parentImage)
+      await this.loadResolutionLevel(
+        levelIndex,
+        requesterId,
+        undefined,
+        controller.signal,
+      )
+      if (controller.signal.aborted) return
+      this.currentLevelIndex = levelIndex
+      this.targetLevelIndex = levelIndex
+    })()
+    this._overlayLoad = load.catch(() => undefined)
 
-      if (this.isLoading || this._pendingPopulateRequest !== null) {
-        await new Promise<void>((r) => setTimeout(r, POLL_MS))
-        continue
+    try {
+      await load
+    } catch (err) {
+      // Superseded or cancelled loads fail silently
+      if (!controller.signal.aborted) throw err
+    } finally {
+      signal?.removeEventListener("abort", abort)
+      if (this._overlayAbortController === controller) {
+        this._overlayAbortController = null
       }
+    }
+  }
 
-      let slabBusy = false
-      for (const slabState of this._slabBuffers.values()) {
-        if (slabState.isLoading || slabState.pendingReload !== null) {
-          slabBusy = true
-          break
-        }
-      }
-      if (slabBusy) {
-        await new Promise<void>((r) => setTimeout(r, POLL_MS))
-        continue
+  /**
+   * Find the resolution level whose voxel size is closest to that of a
+   * level of another image (smallest summed log ratio over x, y and z).
+   */
+  private _matchLevelTo(reference: NgffImage): number {
+    const spacing = (image: NgffImage) =>
+      ["x", "y", "z"].map(
+        (axis) => image.scale[axis] ?? image.scale[axis.toUpperCase()] ?? 1,
+      )
+    const target = spacing(reference)
+    let bestLevel = 0
+    let bestDistance = Infinity
+    for (let i = 0; i < this.multiscales.images.length; i++) {
+      const distance = spacing(this.multiscales.images[i]).reduce(
+        (sum, s, axis) => sum + Math.abs(Math.log(s / target[axis])),
+        0,
+      )
+      if (distance < bestDistance) {
+        bestLevel = i
+        bestDistance = distance
       }
-
-      // ---- In-flight fetches ----
-
-      await this.coalescer.onIdle()
-
-      // ---- Convergence check ----
-      // A debounce timer or pending request may have appeared while we
-      // were awaiting the coalescer. If so, loop again.
-
-      const stillBusy =
-        this.isLoading ||
-        this._pendingPopulateRequest !== null ||
-        this.clipPlaneRefetchTimeout !== null ||
-        this._viewportUpdateTimeout !== null ||
-        this._slabReloadTimeouts.size > 0 ||
-        Array.from(this._slabBuffers.values()).some(
-          (s) => s.isLoading || s.pendingReload !== null,
-        )
-
-      if (!stillBusy) break
     }
+    return bestLevel
   }
 
-  // ============================================================
-  // OMERO Metadata (Visualization Parameters)
-  // ============================================================
+  /** @throws Error if this is not a label image */
+  private _assertLabelImage(): void {
+    if (!this.isLabelImage) {
+      throw new Error("Not a label image")
+    }
+  }
 
   /**
-   * Get OMERO metadata (if available).
-   *
-   * Returns the existing OMERO metadata from the OME-Zarr file,
-   * or the computed OMERO metadata if none was present in the file.
-   *
-   * OMERO metadata includes per-channel visualization parameters:
-   * - window.min/max: The actual data range
-   * - window.start/end: The display window (based on quantiles)
-   * - color: Hex color for the channel
-   * - label: Channel name
-   *
-   * @returns OMERO metadata or undefined if not yet loaded/computed
+   * Rebuild the label colormaps of the 3D volume and slabs after a
+   * visibility or opacity change, and redraw.
    */
-  getOmero(): Omero | undefined {
-    return this._omero
+  private _refreshLabelColormaps(): void {
+    const volumes: NVImage[] = [this]
+    for (const slabState of this._slabBuffers.values()) {
+      volumes.push(slabState.nvImage)
+    }
+    for (const nvImage of volumes) {
+      const uniqueLabels = this._colormapLabels.get(nvImage)
+      if (uniqueLabels) this._setLabelColormap(nvImage, uniqueLabels)
+    }
+    const niivues = new Set([this.niivue, ...this._attachedNiivues.keys()])
+    for (const nv of niivues) {
+      nv.updateGLVolume()
+    }
   }
 
   /**
-   * Get the active channel index used for OMERO window selection.
+   * Get the channel loaded as a scalar volume.
    *
-   * For multi-channel images, this determines which channel's
-   * cal_min/cal_max values are applied to the NiiVue display.
-   *
-   * @returns Current active channel index (0-based)
+   * @returns The selected channel index, or `null` when all channels are
+   *   loaded (RGB/RGBA or composite rendering)
    */
-  getActiveChannel(): number {
-    return this._activeChannel
+  getChannel(): number | null {
+    return this._channelIndex
   }
 
   /**
-   * Set the active channel for OMERO window selection.
+   * Load a single channel of a multi-channel image as a scalar volume.
    *
-   * For multi-channel images, this determines which channel's
-   * window (cal_min/cal_max) values are applied to the NiiVue display.
+   * Only the selected index of the `"c"` axis is fetched, and the volume
+   * is displayed with that channel's OMERO window. Pass `null` to go back
+   * to loading all channels.
    *
-   * Changing the active channel immediately updates the display intensity
-   * range and refreshes the NiiVue rendering.
+   * Switching channels clears the time frame cache and re-runs the
+   * progressive load for the 3D volume and all active slabs.
    *
-   * @param index - Channel index (0-based)
-   * @throws Error if no OMERO metadata is available
+   * @param index - Channel index (0-based), or `null` for all channels
+   * @throws Error if the image has no `"c"` dimension
    * @throws Error if index is out of range
+   * @throws Error if `index` is `null` and the channels are neither RGB/RGBA
+   *   nor composited
    *
    * @example
    * ```typescript
-   * // Get number of channels
-   * const omero = image.getOmero();
-   * if (omero) {
-   *   console.log(`${omero.channels.length} channels available`);
-   *   // Switch to channel 1
-   *   image.setActiveChannel(1);
-   * }
+   * // Show the second channel of a fluorescence image in grayscale
+   * await image.setChannel(1);
    * ```
    */
-  setActiveChannel(index: number): void {
-    if (!this._omero?.channels?.length) {
-      throw new Error("No OMERO metadata available")
+  async setChannel(index: number | null): Promise<void> {
+    if (index !== null) this._validateChannelIndex(index)
+    if (index === this._channelIndex) return
+    if (index === null && this._timeRange4D) {
+      throw new Error(
+        "Cannot load all channels: 4D time ranges require a single channel",
+      )
     }
-    if (index < 0 || index >= this._omero.channels.length) {
+    if (index === null) this._assertAllChannelsDisplayable()
+
+    const formatChanged = (index === null) !== (this._channelIndex === null)
+    this._channelIndex = index
+    if (index !== null) {
+      this._activeChannel = index
+      this.applyOmeroToHeader()
+    }
+
+    if (formatChanged) this._applyOutputFormat()
+
+    // Cached frames hold data for the previous channel selection
+    this._timeFrameCache?.clear()
+    this._cancelTimeFramePrefetch()
+    this._reloadAllSlabs("channelChanged")
+    await this.populateVolume(false, "channelChanged")
+  }
+
+  /**
+   * Check that all channels of the image can be loaded together:
+   * non-composite multi-component images must be RGB (3) / RGBA (4).
+   *
+   * @throws Error if the channels can only be displayed composited
+   */
+  private _assertAllChannelsDisplayable(): void {
+    if (
+      this._channelInfo &&
+      !this._composite &&
+      isCompositeImage(this.multiscales.images[0])
+    ) {
       throw new Error(
-        `Invalid channel index: ${index} (have ${this._omero.channels.length} channels)`,
+        `Unsupported multi-component image: found ${this._channelInfo.components} ` +
+          `components with dtype '${this.dtype}'. Only RGB (3 components) ` +
+          `and RGBA (4 components) images can be displayed without ` +
+          `compositing. Enable the 'composite' option to blend the channels.`,
       )
     }
-    this._activeChannel = index
-    this.applyOmeroToHeader()
-    this.niivue.updateGLVolume()
-    this._widenCalRangeIfNeeded(this)
+  }
+
+  /**
+   * Check that a channel index is valid for the image's `"c"` axis.
+   *
+   * @throws Error if the image has no `"c"` dimension
+   * @throws Error if index is out of range
+   */
+  private _validateChannelIndex(index: number): void {
+    if (!this._channelInfo) {
+      throw new Error(
+        `Cannot select channel ${index}: image has no channel dimension`,
+      )
+    }
+    const { components } = this._channelInfo
+    if (!Number.isInteger(index) || index < 0 || index >= components) {
+      throw new Error(
+        `Invalid channel index: ${index} (have ${components} channels)`,
+      )
+    }
+  }
+
+  /**
+   * Rebuild the output buffers and header datatypes after switching
+   * between single-channel (scalar) and all-channel (RGB/composite)
+   * loading.
+   *
+   * The current dimensions are kept, zero-filled, until the next load
+   * writes data in the new format.
+   */
+  private _applyOutputFormat(): void {
+    const dims = this.bufferManager.getDimensions()
+    this.bufferManager = this._createBufferManager()
+    this.img = this.bufferManager.resize(dims) as NVImage["img"]
+    if (this.hdr) this._setHeaderDatatype(this.hdr)
+
+    for (const slabState of this._slabBuffers.values()) {
+      const slabDims = slabState.bufferManager.getDimensions()
+      slabState.bufferManager = this._createBufferManager()
+      slabState.nvImage.img = slabState.bufferManager.resize(
+        slabDims,
+      ) as NVImage["img"]
+      if (slabState.nvImage.hdr) {
+        this._setHeaderDatatype(slabState.nvImage.hdr)
+      }
+    }
   }
 
   // ============================================================
@@ -2244,6 +5106,7 @@ export class OMEZarrNVImage extends NVImage {
       "locationChange",
       (e) => {
         this._handleLocationChange(nv, e.detail)
+        this._scheduleVoxelValueProbe(nv)
       },
       { signal },
     )
@@ -2526,26 +5389,14 @@ export class OMEZarrNVImage extends NVImage {
    * Create a new slab buffer state for a slice type.
    */
   private _createSlabBuffer(sliceType: SlabSliceType): SlabBufferState {
-    const componentsPerVoxel = this._channelInfo?.components ?? 1
-    const bufferManager = new BufferManager(
-      this.maxPixels,
-      this.dtype,
-      componentsPerVoxel,
-    )
+    const bufferManager = this._createBufferManager()
     const nvImage = new NVImage()
 
     // Initialize with placeholder NIfTI header (same as main image setup)
     const hdr = new NIFTI1()
     nvImage.hdr = hdr
     hdr.dims = [3, 1, 1, 1, 1, 1, 1, 1]
-    if (this._channelInfo && isRGBImage(this.multiscales.images[0])) {
-      const rgbCode = getRGBNiftiDataType(this._channelInfo)
-      hdr.datatypeCode = rgbCode
-      hdr.numBitsPerVoxel = rgbCode === NiftiDataType.RGB24 ? 24 : 32
-    } else {
-      hdr.datatypeCode = getNiftiDataType(this.dtype)
-      hdr.numBitsPerVoxel = getBytesPerPixel(this.dtype) * 8
-    }
+    this._setHeaderDatatype(hdr)
     hdr.pixDims = [1, 1, 1, 1, 0, 0, 0, 0]
     hdr.affine = [
       [1, 0, 0, 0],
@@ -2569,6 +5420,8 @@ export class OMEZarrNVImage extends NVImage {
       this._clipPlanes,
       this._volumeBounds,
       orthAxis,
+      undefined,
+      this._framesPerLoad,
     )
 
     return {
@@ -2591,10 +5444,14 @@ export class OMEZarrNVImage extends NVImage {
    */
   private _swapVolumeInNiivue(nv: Niivue, targetVolume: NVImage): void {
     // Find and remove any volumes we own (the main image or any slab NVImages)
+    // (label overlays only follow the 3D volume)
     const ourVolumes = new Set<NVImage>([this as NVImage])
     for (const slab of this._slabBuffers.values()) {
       ourVolumes.add(slab.nvImage)
     }
+    for (const overlay of this._labelOverlays) {
+      ourVolumes.add(overlay)
+    }
 
     // Remove our volumes from nv (in reverse to avoid index shifting issues)
     const toRemove = nv.volumes.filter((v) => ourVolumes.has(v))
@@ -2610,6 +5467,11 @@ export class OMEZarrNVImage extends NVImage {
     if (!nv.volumes.includes(targetVolume)) {
       try {
         nv.addVolume(targetVolume)
+        if (targetVolume === this) {
+          for (const overlay of this._labelOverlays) {
+            nv.addVolume(overlay)
+          }
+        }
       } catch (err) {
         console.warn("[fidnii] Failed to add volume to NV:", err)
         return
@@ -2682,6 +5544,7 @@ export class OMEZarrNVImage extends NVImage {
         this._volumeBounds,
         orthAxis,
         slabViewportBounds,
+        this._framesPerLoad,
       )
       slabState.targetLevelIndex = selection.levelIndex
 
@@ -2692,8 +5555,9 @@ export class OMEZarrNVImage extends NVImage {
       // straight to the target level. The user already sees the previous
       // resolution, so a single update is smoother than replaying the full
       // progressive sequence which causes visual flicker during rapid
-      // zoom/pan interactions.
-      const skipProgressive = trigger === "viewportChanged"
+      // zoom/pan interactions. The same holds when stepping through time.
+      const skipProgressive =
+        trigger === "viewportChanged" || trigger === "timeChanged"
       const startLevel = skipProgressive
         ? slabState.targetLevelIndex
         : lowestLevel
@@ -2728,6 +5592,12 @@ export class OMEZarrNVImage extends NVImage {
           )
         }
       }
+
+      // Pre-fetch adjacent time frames of the slab window once the target
+      // level is displayed.
+      if (!abortController.signal.aborted) {
+        this._prefetchSlabFrames(sliceType, this._timeIndex)
+      }
     } finally {
       slabState.isLoading = false
 
@@ -2819,47 +5689,35 @@ export class OMEZarrNVImage extends NVImage {
       fetchEnd[2] - fetchStart[2],
     ]
 
-    // Fetch the data
+    // Fetch the data. The slab window is chunk-aligned, so it doubles as
+    // the time frame cache region.
     const fetchRegion: PixelRegion = { start: fetchStart, end: fetchEnd }
-    const result = await this.coalescer.fetchRegion(
+    const slabRegion: ChunkAlignedRegion = {
+      start: fetchStart,
+      end: fetchEnd,
+      chunkAlignedStart: fetchStart,
+      chunkAlignedEnd: fetchEnd,
+      needsClipping: false,
+    }
+    const windowed = this._usesChannelWindows(ngffImage)
+    const data = await this._fetchIntoBuffer(
+      slabState.bufferManager,
       ngffImage,
       levelIndex,
       fetchRegion,
+      fetchedShape,
       `slab-${SLICE_TYPE[sliceType]}-${levelIndex}`,
       this._timeIndex,
+      undefined,
+      slabRegion,
+      undefined,
+      sliceType,
     )
-
-    // Resize buffer and copy data
-    const targetData = slabState.bufferManager.resize(fetchedShape)
-    const normalize = needsRGBNormalization(ngffImage, this.dtype)
-
-    if (normalize && this._channelInfo) {
-      // Non-uint8 RGB/RGBA: normalize raw data to uint8 using OMERO windows
-      const windows = this._getChannelWindows(
-        result.data,
-        this._channelInfo.components,
-      )
-      const normalized = normalizeToUint8(
-        result.data,
-        this._channelInfo.components,
-        windows,
-      )
-      targetData.set(normalized)
-    } else {
-      // uint8 RGB or scalar: direct copy
-      targetData.set(result.data)
-    }
-
-    // Reverse row order for RGBA 2D images (see populateVolume).
-    if (this._flipY2DInData) {
-      const components = this._channelInfo?.components ?? 1
-      this._flipRowsInPlace(
-        targetData,
-        fetchedShape[2], // x dimension (width)
-        fetchedShape[1], // y dimension (height)
-        components * targetData.BYTES_PER_ELEMENT,
-      )
-    }
+    this._lastLoadedSlabRegions.set(sliceType, {
+      region: slabRegion,
+      levelIndex,
+      culling: null,
+    })
 
     slabState.nvImage.img =
       slabState.bufferManager.getTypedArray() as NVImage["img"]
@@ -2879,10 +5737,11 @@ export class OMEZarrNVImage extends NVImage {
 
     if (this.isLabelImage) {
       // Label images: apply discrete colormap to the slab NVImage
-      this._applyLabelColormap(slabState.nvImage, result.data)
-    } else if (this._omero && !normalize) {
+      await this._ensureLabelColorsSeeded(this._timeIndex)
+      this._applyLabelColormap(slabState.nvImage, data)
+    } else if (this._omero && !windowed) {
       // Apply OMERO metadata for scalar / uint8 RGB.
-      // Normalized RGB already consumed the OMERO window during normalization.
+      // Composites and normalized RGB already consumed the OMERO window.
       this._applyOmeroToSlabHeader(slabState.nvImage)
     }
 
@@ -2966,53 +5825,39 @@ export class OMEZarrNVImage extends NVImage {
     const nsy = sy * normalizationScale
     const nsz = sz * normalizationScale
 
-    nvImage.hdr.pixDims = [1, nsx, nsy, nsz, 0, 0, 0, 0]
+    nvImage.hdr.pixDims = [
+      1,
+      nsx,
+      nsy,
+      nsz,
+      this._timeAxisInfo?.step ?? 0,
+      0,
+      0,
+      0,
+    ]
     // NIfTI dims: [ndim, x, y, z, t, ...]
+    const frames = this._framesPerLoad
     nvImage.hdr.dims = [
-      3,
+      frames > 1 ? 4 : 3,
       fetchedShape[2],
       fetchedShape[1],
       fetchedShape[0],
-      1,
+      frames,
       1,
       1,
       1,
     ]
-
-    // Build the fully oriented affine (including orientation permutation
-    // and sign flips), then apply the region offset in world space.
-    //
-    // The offset must be applied AFTER orientation because the fetch region
-    // start is in NGFF voxel space [z, y, x], and the oriented 3x3 rotation
-    // matrix is needed to transform that voxel offset into world coordinates.
-    // Previously, the offset was applied before orientation which broke when
-    // NGFF axes were permuted (e.g. NGFF z → physical A/P axis).
-    const affine = createAffineFromNgffImage(ngffImage)
-
-    // Transform the NGFF voxel offset through the oriented 3x3 rotation.
-    // fetchStart is [z, y, x]; affine columns map NIfTI [i=x, j=y, k=z]
-    // to world, so we need offset in NIfTI [x, y, z] order.
-    const offsetX = fetchStart[2] // NIfTI i = NGFF x
-    const offsetY = fetchStart[1] // NIfTI j = NGFF y
-    const offsetZ = fetchStart[0] // NIfTI k = NGFF z
-    // Multiply the 3x3 rotation by the offset vector and add to translation
-    affine[12] +=
-      affine[0] * offsetX + affine[4] * offsetY + affine[8] * offsetZ
-    affine[13] +=
-      affine[1] * offsetX + affine[5] * offsetY + affine[9] * offsetZ
-    affine[14] +=
-      affine[2] * offsetX + affine[6] * offsetY + affine[10] * offsetZ
+    this._syncTimeIndexFromFrame4D()
+    this._updateFrames4D(nvImage)
 
     // For 2D images, flip y before normalization (composes with orientation).
     // Skip when _flipY2DInData: rows are already reversed in the buffer.
-    if (this._flipY2D && this._is2D && !this._flipY2DInData) {
-      // Get the y axis orientation mapping to find where the y scale is stored
-      const mapping = getOrientationMapping(ngffImage.axesOrientations)
-      // The y scale is at affine[4 + physicalRow] (column 1, appropriate row)
-      const yScaleIndex = 4 + mapping.y.physicalRow
-      affine[13] += affine[yScaleIndex] * (fetchedShape[1] - 1)
-      affine[yScaleIndex] = -affine[yScaleIndex]
-    }
+    const affine = this._regionAffine(
+      ngffImage,
+      fetchStart,
+      fetchedShape,
+      !this._flipY2DInData,
+    )
 
     // Apply normalization to the entire affine (scale columns + translation)
     for (let i = 0; i < 15; i++) {
@@ -3070,12 +5915,19 @@ export class OMEZarrNVImage extends NVImage {
    * Must be called AFTER updateGLVolume() so that calMinMax() has computed
    * global_min/global_max from the actual slab data.
    *
+   * Skipped once a window has been set with {@link setChannelWindow}, and
+   * when {@link OMEZarrNVImageOptions.lockWindow} is set.
+   *
    * @returns true if the display range was widened
    */
   private _widenCalRangeIfNeeded(nvImage: NVImage): boolean {
     if (nvImage.global_min === undefined || nvImage.global_max === undefined) {
       return false
     }
+    // An explicitly set or locked window is the user's choice of contrast
+    if (this._editedWindows.has(this._activeChannel) || this._lockWindow) {
+      return false
+    }
 
     let widened = false
 
@@ -11,6 +11,7 @@ import type {
   RegionFetchResult,
   TypedArray,
 } from "./types.js"
+import { getTypedArrayConstructor, parseZarritaDtype } from "./types.js"
 
 /**
  * Represents a pending request that may have multiple consumers waiting for the result.
@@ -43,31 +44,88 @@ const SPATIAL_DIM_MAP: Record<string, 0 | 1 | 2> = {
  * The `PixelRegion` is always in `[z, y, x]` order. This function maps
  * each zarr dimension to the correct slice:
  * - `"z"`, `"y"`, `"x"` → sliced by the corresponding PixelRegion axis
- * - `"c"` (channel) → `null` (select all components)
+ * - `"c"` (channel) → `channelIndex` (selects a single channel), or
+ *   `null` (select all components) when no channel index is given
  * - `"t"` (time) → `timeIndex` (selects a single time point)
  *
  * @param dims - Dimension names from NgffImage (e.g. `["y", "x", "c"]`)
  * @param region - The pixel region in `[z, y, x]` order
  * @param timeIndex - Time point index to select (default: 0)
+ * @param channelIndex - Channel index to select (default: all channels)
  * @returns Selection array matching the zarr dim order
  */
 export function buildSelection(
   dims: string[],
   region: PixelRegion,
   timeIndex: number = 0,
+  channelIndex?: number,
 ): (zarr.Slice | number | null)[] {
   return dims.map((dim) => {
     const spatialIdx = SPATIAL_DIM_MAP[dim]
     if (spatialIdx !== undefined) {
       return zarr.slice(region.start[spatialIdx], region.end[spatialIdx])
     }
-    if (dim === "c") return null // select all channels
+    if (dim === "c") return channelIndex ?? null // one or all channels
     if (dim === "t") return timeIndex // select specified time point
     // Unknown dimension — select all to avoid data loss
     return null
   })
 }
 
+/**
+ * C-order strides for a shape.
+ */
+function cOrderStrides(shape: number[]): number[] {
+  const stride = new Array<number>(shape.length)
+  let s = 1
+  for (let i = shape.length - 1; i >= 0; i--) {
+    stride[i] = s
+    s *= shape[i]
+  }
+  return stride
+}
+
+/**
+ * Copy a fetched sub-region into a larger C-order array.
+ *
+ * @param src - The fetched sub-region
+ * @param dst - Destination array
+ * @param dstStride - C-order strides of `dst`
+ * @param offset - Position of `src` within `dst`, per dimension
+ */
+function copyIntoRegion(
+  src: RegionFetchResult,
+  dst: TypedArray,
+  dstStride: number[],
+  offset: number[],
+): void {
+  const ndim = src.shape.length
+  if (ndim === 0) return
+  const last = ndim - 1
+  const rowLength = src.shape[last]
+  const index = new Array<number>(last).fill(0)
+  const rows = src.shape.slice(0, last).reduce((a, b) => a * b, 1)
+
+  for (let row = 0; row < rows; row++) {
+    let srcOffset = 0
+    let dstOffset = offset[last] * dstStride[last]
+    for (let d = 0; d < last; d++) {
+      srcOffset += index[d] * src.stride[d]
+      dstOffset += (index[d] + offset[d]) * dstStride[d]
+    }
+    for (let i = 0; i < rowLength; i++) {
+      dst[dstOffset + i * dstStride[last]] =
+        src.data[srcOffset + i * src.stride[last]]
+    }
+
+    // Advance the multi-dimensional row index
+    for (let d = last - 1; d >= 0; d--) {
+      if (++index[d] < src.shape[d]) break
+      index[d] = 0
+    }
+  }
+}
+
 /**
  * RegionCoalescer handles fetching sub-regions from OME-Zarr images with:
  *
@@ -99,17 +157,19 @@ export class RegionCoalescer {
 
   /**
    * Generate a unique key for a request based on image path, level index,
-   * region, and time index.
+   * region, time index, and channel index.
    */
   private makeKey(
     imagePath: string,
     levelIndex: number,
     region: PixelRegion,
     timeIndex: number,
+    channelIndex?: number,
   ): string {
     const start = region.start.join(",")
     const end = region.end.join(",")
-    return `${imagePath}:${levelIndex}:${start}:${end}:t${timeIndex}`
+    const channel = channelIndex === undefined ? "all" : channelIndex
+    return `${imagePath}:${levelIndex}:${start}:${end}:t${timeIndex}:c${channel}`
   }
 
   /**
@@ -121,6 +181,7 @@ export class RegionCoalescer {
    * @param requesterId - ID of the requester (e.g., 'zoom', 'crop-change', 'progressive-load')
    * @param timeIndex - Time point index to fetch (default: 0)
    * @param signal - Optional AbortSignal to cancel the fetch
+   * @param channelIndex - Channel index to fetch (default: all channels)
    * @returns The fetched region data
    */
   async fetchRegion(
@@ -130,8 +191,15 @@ export class RegionCoalescer {
     requesterId: string = "default",
     timeIndex: number = 0,
     signal?: AbortSignal,
+    channelIndex?: number,
   ): Promise<RegionFetchResult> {
-    const key = this.makeKey(ngffImage.data.path, levelIndex, region, timeIndex)
+    const key = this.makeKey(
+      ngffImage.data.path,
+      levelIndex,
+      region,
+      timeIndex,
+      channelIndex,
+    )
 
     // Check if there's already a pending request for this data
     const existing = this.pending.get(key)
@@ -163,9 +231,14 @@ export class RegionCoalescer {
     try {
       // Build a dim-aware selection that maps the [z, y, x] PixelRegion
       // to the actual zarr dimension order. Non-spatial dims are handled:
-      //   "c" (channel) → null (fetch all components)
+      //   "c" (channel) → channelIndex, or null (fetch all components)
       //   "t" (time)    → timeIndex (selects single time point)
-      const selection = buildSelection(ngffImage.dims, region, timeIndex)
+      const selection = buildSelection(
+        ngffImage.dims,
+        region,
+        timeIndex,
+        channelIndex,
+      )
       // Pass the chunk cache to fizarrita's getWorker via zarrGet.
       // The `cache` option is available in @fideus-labs/fizarrita >=1.2.0.
       // When an AbortSignal is provided, forward it through `opts` so
@@ -197,6 +270,81 @@ export class RegionCoalescer {
     }
   }
 
+  /**
+   * Fetch a region from a subset of its chunks, filling the rest with zeros.
+   *
+   * Each chunk is requested through {@link fetchRegion}, so chunk requests
+   * are coalesced and cached as usual. The result has the same layout as
+   * fetching the whole region at once.
+   *
+   * @param ngffImage - The NgffImage to fetch from
+   * @param levelIndex - The resolution level index
+   * @param region - The pixel region covered by the result
+   * @param chunks - Chunk regions to fetch, each within `region`
+   * @param requesterId - ID of the requester
+   * @param timeIndex - Time point index to fetch (default: 0)
+   * @param signal - Optional AbortSignal to cancel the fetches
+   * @param channelIndex - Channel index to fetch (default: all channels)
+   * @returns The region data with skipped chunks zero-filled
+   */
+  async fetchChunks(
+    ngffImage: NgffImage,
+    levelIndex: number,
+    region: PixelRegion,
+    chunks: PixelRegion[],
+    requesterId: string = "default",
+    timeIndex: number = 0,
+    signal?: AbortSignal,
+    channelIndex?: number,
+  ): Promise<RegionFetchResult> {
+    const results = await Promise.all(
+      chunks.map((chunk) =>
+        this.fetchRegion(
+          ngffImage,
+          levelIndex,
+          chunk,
+          requesterId,
+          timeIndex,
+          signal,
+          channelIndex,
+        ),
+      ),
+    )
+
+    // Integer selections ("t", and "c" when a channel is selected) drop
+    // their dimension from the fetched data.
+    const keptDims: { dim: string; size: number }[] = []
+    ngffImage.dims.forEach((dim, i) => {
+      if (dim === "t") return
+      if (dim === "c" && channelIndex !== undefined) return
+      const spatialIdx = SPATIAL_DIM_MAP[dim]
+      const size =
+        spatialIdx !== undefined
+          ? region.end[spatialIdx] - region.start[spatialIdx]
+          : ngffImage.data.shape[i]
+      keptDims.push({ dim, size })
+    })
+
+    const shape = keptDims.map((d) => d.size)
+    const stride = cOrderStrides(shape)
+    const ArrayType = getTypedArrayConstructor(
+      parseZarritaDtype(ngffImage.data.dtype),
+    )
+    const data = new ArrayType(shape.reduce((a, b) => a * b, 1))
+
+    for (let i = 0; i < chunks.length; i++) {
+      const offset = keptDims.map(({ dim }) => {
+        const spatialIdx = SPATIAL_DIM_MAP[dim]
+        return spatialIdx !== undefined
+          ? chunks[i].start[spatialIdx] - region.start[spatialIdx]
+          : 0
+      })
+      copyIntoRegion(results[i], data, stride, offset)
+    }
+
+    return { data, shape, stride }
+  }
+
   /**
    * Fetch multiple regions in parallel, with deduplication.
    * Useful for fetching multiple chunks for a single view update.
@@ -206,6 +354,7 @@ export class RegionCoalescer {
    * @param regions - Array of pixel regions to fetch
    * @param requesterId - ID of the requester
    * @param timeIndex - Time point index to fetch (default: 0)
+   * @param channelIndex - Channel index to fetch (default: all channels)
    * @returns Array of fetched region data
    */
   async fetchRegions(
@@ -214,10 +363,19 @@ export class RegionCoalescer {
     regions: PixelRegion[],
     requesterId: string = "default",
     timeIndex: number = 0,
+    channelIndex?: number,
   ): Promise<RegionFetchResult[]> {
     return Promise.all(
       regions.map((region) =>
-        this.fetchRegion(ngffImage, levelIndex, region, requesterId, timeIndex),
+        this.fetchRegion(
+          ngffImage,
+          levelIndex,
+          region,
+          requesterId,
+          timeIndex,
+          undefined,
+          channelIndex,
+        ),
       ),
     )
   }
@@ -230,8 +388,15 @@ export class RegionCoalescer {
     levelIndex: number,
     region: PixelRegion,
     timeIndex: number = 0,
+    channelIndex?: number,
   ): boolean {
-    const key = this.makeKey(ngffImage.data.path, levelIndex, region, timeIndex)
+    const key = this.makeKey(
+      ngffImage.data.path,
+      levelIndex,
+      region,
+      timeIndex,
+      channelIndex,
+    )
     return this.pending.has(key)
   }
 
@@ -244,8 +409,15 @@ export class RegionCoalescer {
     levelIndex: number,
     region: PixelRegion,
     timeIndex: number = 0,
+    channelIndex?: number,
   ): Set<string> | undefined {
-    const key = this.makeKey(ngffImage.data.path, levelIndex, region, timeIndex)
+    const key = this.makeKey(
+      ngffImage.data.path,
+      levelIndex,
+      region,
+      timeIndex,
+      channelIndex,
+    )
     return this.pending.get(key)?.requesters
   }
 
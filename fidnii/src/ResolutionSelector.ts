@@ -3,7 +3,11 @@
 
 import type { Multiscales, NgffImage } from "@fideus-labs/ngff-zarr"
 
-import { clipPlanesToPixelRegion } from "./ClipPlanes.js"
+import {
+  clipPlanesToPixelRegion,
+  hasObliqueClipPlanes,
+  isRegionClipped,
+} from "./ClipPlanes.js"
 import type {
   ClipPlanes,
   PixelRegion,
@@ -17,19 +21,31 @@ import type {
  */
 export type OrthogonalAxis = 0 | 1 | 2
 
+/**
+ * Largest dense bounding box, as a multiple of `maxPixels`, that a level
+ * may load when oblique clip planes cull its chunks. Culled chunks are
+ * not fetched, but the buffer and GL texture still span the whole box.
+ */
+export const MAX_CULLED_BUFFER_FACTOR = 4
+
 /**
  * Select the appropriate resolution level based on pixel budget and clip planes.
  *
  * The selection process:
  * 1. Starts from the highest resolution (level 0)
  * 2. Finds the highest resolution that fits within maxPixels
- * 3. Considers the clipped region size, not full volume
+ * 3. Considers the clipped region size, not full volume. With oblique clip
+ *    planes, only chunks that are not entirely clipped are counted, as long
+ *    as the dense bounding box stays within
+ *    {@link MAX_CULLED_BUFFER_FACTOR} times `maxPixels`
+ * 4. Multiplies by the number of time points loaded at once (4D mode)
  *
  * @param multiscales - The OME-Zarr multiscales data
  * @param maxPixels - Maximum number of pixels to use
  * @param clipPlanes - Current clip planes in world space
  * @param volumeBounds - Full volume bounds in world space
  * @param viewportBounds - Optional viewport bounds (for viewport-aware mode)
+ * @param timePoints - Number of time points loaded together (default: 1)
  * @returns The selected resolution level and buffer dimensions
  */
 export function selectResolution(
@@ -38,6 +54,7 @@ export function selectResolution(
   clipPlanes: ClipPlanes,
   volumeBounds: VolumeBounds,
   viewportBounds?: VolumeBounds,
+  timePoints: number = 1,
 ): ResolutionSelection {
   const images = multiscales.images
 
@@ -58,7 +75,20 @@ export function selectResolution(
       alignedRegion.end[2] - alignedRegion.start[2],
     ]
 
-    const pixelCount = dimensions[0] * dimensions[1] * dimensions[2]
+    let pixelCount = dimensions[0] * dimensions[1] * dimensions[2] * timePoints
+    if (
+      pixelCount > maxPixels &&
+      pixelCount <= maxPixels * MAX_CULLED_BUFFER_FACTOR &&
+      hasObliqueClipPlanes(clipPlanes)
+    ) {
+      pixelCount =
+        countVisibleVoxels(
+          alignedRegion,
+          clipPlanes,
+          image,
+          maxPixels / timePoints,
+        ) * timePoints
+    }
 
     if (pixelCount <= maxPixels) {
       return {
@@ -85,11 +115,51 @@ export function selectResolution(
     alignedRegion.end[2] - alignedRegion.start[2],
   ]
 
+  const voxelCount = hasObliqueClipPlanes(clipPlanes)
+    ? countVisibleVoxels(alignedRegion, clipPlanes, lowestImage)
+    : dimensions[0] * dimensions[1] * dimensions[2]
+
   return {
     levelIndex: images.length - 1,
     dimensions,
-    pixelCount: dimensions[0] * dimensions[1] * dimensions[2],
+    pixelCount: voxelCount * timePoints,
+  }
+}
+
+/**
+ * Count the voxels of the chunks of an aligned region that are not
+ * entirely clipped, like `getVisibleChunks()`.
+ *
+ * @param limit - Stop counting once the count exceeds this many voxels
+ * @returns The count, or a partial count above `limit`
+ */
+function countVisibleVoxels(
+  alignedRegion: PixelRegion,
+  clipPlanes: ClipPlanes,
+  ngffImage: NgffImage,
+  limit: number = Infinity,
+): number {
+  const chunkShape = getChunkShape(ngffImage)
+  const { start, end } = alignedRegion
+  let count = 0
+  for (let z = start[0]; z < end[0]; z += chunkShape[0]) {
+    for (let y = start[1]; y < end[1]; y += chunkShape[1]) {
+      for (let x = start[2]; x < end[2]; x += chunkShape[2]) {
+        const chunk: PixelRegion = {
+          start: [z, y, x],
+          end: [
+            Math.min(z + chunkShape[0], end[0]),
+            Math.min(y + chunkShape[1], end[1]),
+            Math.min(x + chunkShape[2], end[2]),
+          ],
+        }
+        if (isRegionClipped(chunk, clipPlanes, ngffImage)) continue
+        count += (chunk.end[0] - z) * (chunk.end[1] - y) * (chunk.end[2] - x)
+        if (count > limit) return count
+      }
+    }
   }
+  return count
 }
 
 /**
@@ -256,7 +326,8 @@ export function getFullVolumeDimensions(
  * The slab dimensions returned include one chunk of thickness in the
  * orthogonal direction (needed for zarr fetching efficiency). The pixel
  * budget accounts for the full 3D slab volume (in-plane area multiplied
- * by the chunk thickness along the orthogonal axis).
+ * by the chunk thickness along the orthogonal axis), times the number of
+ * time points loaded at once (4D mode).
  *
  * @param multiscales - The OME-Zarr multiscales data
  * @param maxPixels - Maximum number of voxels for the slab (in-plane area × chunk depth)
@@ -264,6 +335,7 @@ export function getFullVolumeDimensions(
  * @param volumeBounds - Full volume bounds in world space
  * @param orthogonalAxis - The axis perpendicular to the slice plane (0=Z, 1=Y, 2=X)
  * @param viewportBounds - Optional viewport bounds (for viewport-aware mode)
+ * @param timePoints - Number of time points loaded together (default: 1)
  * @returns The selected resolution level and slab dimensions
  */
 export function select2DResolution(
@@ -273,6 +345,7 @@ export function select2DResolution(
   volumeBounds: VolumeBounds,
   orthogonalAxis: OrthogonalAxis,
   viewportBounds?: VolumeBounds,
+  timePoints: number = 1,
 ): ResolutionSelection {
   const images = multiscales.images
 
@@ -300,7 +373,10 @@ export function select2DResolution(
     const slabDepth = chunkShape[orthogonalAxis]
     const inPlaneAxes = ([0, 1, 2] as const).filter((a) => a !== orthogonalAxis)
     const slabVoxelCount =
-      dimensions[inPlaneAxes[0]] * dimensions[inPlaneAxes[1]] * slabDepth
+      dimensions[inPlaneAxes[0]] *
+      dimensions[inPlaneAxes[1]] *
+      slabDepth *
+      timePoints
 
     if (slabVoxelCount <= maxPixels) {
       return {
@@ -335,6 +411,9 @@ export function select2DResolution(
     levelIndex: images.length - 1,
     dimensions,
     pixelCount:
-      dimensions[inPlaneAxes[0]] * dimensions[inPlaneAxes[1]] * slabDepth,
+      dimensions[inPlaneAxes[0]] *
+      dimensions[inPlaneAxes[1]] *
+      slabDepth *
+      timePoints,
   }
 }
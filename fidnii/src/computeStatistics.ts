@@ -0,0 +1,435 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+/**
+ * Summary statistics and histograms of a region of a {@link Multiscales},
+ * at any size.
+ *
+ * The region is walked chunk by chunk through a {@link RegionCoalescer},
+ * keeping only a few chunks in memory at a time, so regions far larger
+ * than the `maxPixels` budget of the viewer can be quantified.
+ */
+
+import type { Multiscales, NgffImage } from "@fideus-labs/ngff-zarr"
+
+import {
+  alignToChunks,
+  clipPlanesToPixelRegion,
+  getVisibleChunks,
+  getVolumeBoundsFromMultiscales,
+  insideClipPlanesMask,
+} from "./ClipPlanes.js"
+import { RegionCoalescer } from "./RegionCoalescer.js"
+import type {
+  ClipPlanes,
+  PixelRegion,
+  RegionFetchResult,
+  VolumeBounds,
+} from "./types.js"
+
+/** Progress of {@link computeStatistics}. */
+export interface StatisticsProgress {
+  /** Chunk reads completed so far */
+  loaded: number
+  /** Total chunk reads of the computation */
+  total: number
+}
+
+/** Options for {@link computeStatistics}. */
+export interface ComputeStatisticsOptions {
+  /**
+   * Region in world space (the space of
+   * `OMEZarrNVImage.getVolumeBounds()`).
+   * Default: the full volume
+   */
+  bounds?: VolumeBounds
+  /**
+   * Clip planes restricting the region; only voxels whose centers are
+   * inside all planes are counted. Combines with `bounds`.
+   */
+  clipPlanes?: ClipPlanes
+  /**
+   * Resolution level to read.
+   * Default: 0 (full resolution)
+   */
+  levelIndex?: number
+  /**
+   * Time point to read, for datasets with a `"t"` axis.
+   * Default: 0
+   */
+  timeIndex?: number
+  /**
+   * Channel of the `"c"` axis to read.
+   * Default: all channels, pooled
+   */
+  channelIndex?: number
+  /**
+   * Number of histogram bins.
+   * Default: 256
+   */
+  bins?: number
+  /**
+   * Histogram range `[min, max]`. Values outside it are counted in the
+   * first or last bin. Giving a range reads the region once instead of
+   * twice.
+   * Default: the data range
+   */
+  range?: [number, number]
+  /**
+   * Percentiles to estimate, in [0, 100].
+   * Default: `[1, 5, 25, 50, 75, 95, 99]`
+   */
+  percentiles?: number[]
+  /** Optional AbortSignal to cancel the computation */
+  signal?: AbortSignal
+  /** Called after each chunk read */
+  onProgress?: (progress: StatisticsProgress) => void
+  /**
+   * Coalescer to fetch through, e.g. an image's, so the second pass is
+   * served from its decoded-chunk cache.
+   * Default: a new coalescer without a cache
+   */
+  coalescer?: RegionCoalescer
+}
+
+/** Result of {@link computeStatistics}. */
+export interface RegionStatistics {
+  /** Number of values counted (voxels × pooled channels) */
+  count: number
+  /** Smallest value (`NaN` when `count` is 0) */
+  min: number
+  /** Largest value (`NaN` when `count` is 0) */
+  max: number
+  /** Mean value (`NaN` when `count` is 0) */
+  mean: number
+  /** Population standard deviation (`NaN` when `count` is 0) */
+  std: number
+  /**
+   * Estimated percentiles by percentile, e.g. `percentiles[50]` for the
+   * median. Interpolated within histogram bins, so accurate to one bin
+   * width.
+   */
+  percentiles: Record<number, number>
+  /** Histogram of the values */
+  histogram: {
+    /** Count per bin */
+    counts: Float64Array
+    /** Bin edges (`bins + 1` values, the last bin is closed) */
+    edges: Float64Array
+  }
+  /** Resolution level that was read */
+  levelIndex: number
+}
+
+/** Default number of histogram bins. */
+const DEFAULT_BINS = 256
+
+/** Default estimated percentiles. */
+const DEFAULT_PERCENTILES = [1, 5, 25, 50, 75, 95, 99]
+
+/** Chunks fetched concurrently, bounding memory use. */
+const CHUNK_CONCURRENCY = 8
+
+/** Map from spatial dim name to its [z, y, x] PixelRegion index. */
+const SPATIAL_AXIS: Record<string, 0 | 1 | 2> = { z: 0, y: 1, x: 2 }
+
+/**
+ * Compute min, max, mean, standard deviation, percentiles and a histogram
+ * of a region.
+ *
+ * The first pass finds the data range, mean and standard deviation; the
+ * second fills the histogram (skipped when `range` is given). Non-finite
+ * values are ignored. Chunks entirely cut away by oblique clip planes are
+ * not read.
+ *
+ * @param multiscales - The source multiscale image
+ * @param options - Region, level, time point, bins and progress callback
+ * @returns The region statistics
+ * @throws If the level, time index, bins or percentiles are invalid, or
+ *   the region does not intersect the volume
+ * @throws The abort reason when `signal` is aborted
+ *
+ * @example
+ * ```typescript
+ * const stats = await computeStatistics(multiscales, {
+ *   bounds: { min: [0, 0, 10], max: [50, 50, 20] },
+ *   bins: 128,
+ * })
+ * console.log(stats.mean, stats.percentiles[50])
+ * ```
+ */
+export async function computeStatistics(
+  multiscales: Multiscales,
+  options: ComputeStatisticsOptions = {},
+): Promise<RegionStatistics> {
+  const levelIndex = options.levelIndex ?? 0
+  if (
+    !Number.isInteger(levelIndex) ||
+    levelIndex < 0 ||
+    levelIndex >= multiscales.images.length
+  ) {
+    throw new Error(
+      `Invalid resolution level: ${levelIndex} (have ${multiscales.images.length} levels)`,
+    )
+  }
+  const ngffImage = multiscales.images[levelIndex]
+
+  const timeIndex = options.timeIndex ?? 0
+  const tAxis = ngffImage.dims.indexOf("t")
+  const timeCount = tAxis === -1 ? 1 : ngffImage.data.shape[tAxis]
+  if (!Number.isInteger(timeIndex) || timeIndex < 0 || timeIndex >= timeCount) {
+    throw new Error(
+      `Invalid time index: ${timeIndex} (have ${timeCount} time points)`,
+    )
+  }
+
+  const bins = options.bins ?? DEFAULT_BINS
+  if (!Number.isInteger(bins) || bins < 1) {
+    throw new Error(`Invalid bin count: ${bins}`)
+  }
+  const percentiles = options.percentiles ?? DEFAULT_PERCENTILES
+  for (const p of percentiles) {
+    if (!(p >= 0 && p <= 100)) {
+      throw new Error(`Invalid percentile: ${p} (must be in [0, 100])`)
+    }
+  }
+
+  // Chunks of the region, without those entirely clipped away
+  const clipPlanes = options.clipPlanes ?? []
+  const bounds = options.bounds ?? getVolumeBoundsFromMultiscales(multiscales)
+  const region = clipPlanesToPixelRegion(clipPlanes, bounds, ngffImage)
+  for (let axis = 0; axis < 3; axis++) {
+    if (region.end[axis] <= region.start[axis]) {
+      throw new Error(
+        `Statistics region [${bounds.min.join(", ")}] to [${bounds.max.join(", ")}] does not intersect the volume`,
+      )
+    }
+  }
+  const aligned = alignToChunks(region, ngffImage)
+  const chunks = getVisibleChunks(
+    { start: aligned.chunkAlignedStart, end: aligned.chunkAlignedEnd },
+    clipPlanes,
+    ngffImage,
+  ).map((chunk) => intersectRegions(chunk, region))
+
+  const coalescer = options.coalescer ?? new RegionCoalescer()
+  const passes = options.range ? 1 : 2
+  const total = chunks.length * passes
+  let loaded = 0
+
+  /** Visit every counted value of the region, chunk by chunk. */
+  const walk = async (visit: (value: number) => void) => {
+    for (let i = 0; i < chunks.length; i += CHUNK_CONCURRENCY) {
+      options.signal?.throwIfAborted()
+      const batch = chunks.slice(i, i + CHUNK_CONCURRENCY)
+      const results = await Promise.all(
+        batch.map((chunk) =>
+          coalescer.fetchRegion(
+            ngffImage,
+            levelIndex,
+            chunk,
+            "statistics",
+            timeIndex,
+            options.signal,
+            options.channelIndex,
+          ),
+        ),
+      )
+      options.signal?.throwIfAborted()
+      batch.forEach((chunk, j) => {
+        const mask =
+          clipPlanes.length > 0
+            ? insideClipPlanesMask(
+                regionShape(chunk),
+                chunk.start,
+                clipPlanes,
+                ngffImage,
+              )
+            : undefined
+        forEachValue(ngffImage, options.channelIndex, results[j], mask, visit)
+        loaded++
+        options.onProgress?.({ loaded, total })
+      })
+    }
+  }
+
+  // Pass 1: range and moments (shifted sums for numerical stability)
+  let count = 0
+  let min = Number.POSITIVE_INFINITY
+  let max = Number.NEGATIVE_INFINITY
+  let shift = Number.NaN
+  let sum = 0
+  let sumSq = 0
+  let [lo, hi] = options.range ?? [0, 0]
+  let counts = new Float64Array(bins)
+  let binScale = 0
+  const addToHistogram = (value: number) => {
+    const bin = Math.floor((value - lo) * binScale)
+    counts[Math.min(Math.max(bin, 0), bins - 1)]++
+  }
+  if (options.range) binScale = hi > lo ? bins / (hi - lo) : 0
+
+  await walk((value) => {
+    if (!Number.isFinite(value)) return
+    if (count === 0) shift = value
+    count++
+    if (value < min) min = value
+    if (value > max) max = value
+    const d = value - shift
+    sum += d
+    sumSq += d * d
+    if (options.range) addToHistogram(value)
+  })
+
+  // Pass 2: histogram over the data range
+  if (!options.range && count > 0) {
+    lo = min
+    hi = max
+    binScale = hi > lo ? bins / (hi - lo) : 0
+    counts = new Float64Array(bins)
+    await walk((value) => {
+      if (Number.isFinite(value)) addToHistogram(value)
+    })
+  }
+
+  const edges = new Float64Array(bins + 1)
+  for (let b = 0; b <= bins; b++) edges[b] = lo + ((hi - lo) * b) / bins
+
+  if (count === 0) {
+    return {
+      count,
+      min: Number.NaN,
+      max: Number.NaN,
+      mean: Number.NaN,
+      std: Number.NaN,
+      percentiles: Object.fromEntries(percentiles.map((p) => [p, Number.NaN])),
+      histogram: { counts, edges },
+      levelIndex,
+    }
+  }
+
+  const meanShifted = sum / count
+  return {
+    count,
+    min,
+    max,
+    mean: shift + meanShifted,
+    std: Math.sqrt(Math.max(0, sumSq / count - meanShifted * meanShifted)),
+    percentiles: Object.fromEntries(
+      percentiles.map((p) => [
+        p,
+        histogramPercentile(counts, edges, count, p, min, max),
+      ]),
+    ),
+    histogram: { counts, edges },
+    levelIndex,
+  }
+}
+
+/** Intersection of two pixel regions. */
+function intersectRegions(a: PixelRegion, b: PixelRegion): PixelRegion {
+  return {
+    start: [
+      Math.max(a.start[0], b.start[0]),
+      Math.max(a.start[1], b.start[1]),
+      Math.max(a.start[2], b.start[2]),
+    ],
+    end: [
+      Math.min(a.end[0], b.end[0]),
+      Math.min(a.end[1], b.end[1]),
+      Math.min(a.end[2], b.end[2]),
+    ],
+  }
+}
+
+/** Shape [z, y, x] of a pixel region. */
+function regionShape(region: PixelRegion): [number, number, number] {
+  return [
+    region.end[0] - region.start[0],
+    region.end[1] - region.start[1],
+    region.end[2] - region.start[2],
+  ]
+}
+
+/**
+ * Visit every value of a fetched region, skipping voxels whose mask entry
+ * is 0.
+ *
+ * @param ngffImage - The NgffImage the region was fetched from
+ * @param channelIndex - Channel selected in the fetch, if any
+ * @param result - The fetched region
+ * @param mask - Optional per-voxel mask in [z][y][x] order
+ * @param visit - Called with each value
+ */
+function forEachValue(
+  ngffImage: NgffImage,
+  channelIndex: number | undefined,
+  result: RegionFetchResult,
+  mask: Uint8Array | undefined,
+  visit: (value: number) => void,
+): void {
+  // Integer selections ("t", and "c" when a channel is selected) drop
+  // their dimension from the fetched data. The other non-spatial dims
+  // hold the components of each voxel.
+  const keptDims = ngffImage.dims.filter(
+    (dim) => dim !== "t" && !(dim === "c" && channelIndex !== undefined),
+  )
+  const spatialShape = [1, 1, 1]
+  const spatialStride = [0, 0, 0]
+  let componentOffsets = [0]
+  keptDims.forEach((dim, d) => {
+    const axis = SPATIAL_AXIS[dim]
+    if (axis !== undefined) {
+      spatialShape[axis] = result.shape[d]
+      spatialStride[axis] = result.stride[d]
+      return
+    }
+    const next: number[] = []
+    for (const offset of componentOffsets) {
+      for (let c = 0; c < result.shape[d]; c++) {
+        next.push(offset + c * result.stride[d])
+      }
+    }
+    componentOffsets = next
+  })
+
+  const { data } = result
+  let voxel = 0
+  for (let z = 0; z < spatialShape[0]; z++) {
+    for (let y = 0; y < spatialShape[1]; y++) {
+      const row = z * spatialStride[0] + y * spatialStride[1]
+      for (let x = 0; x < spatialShape[2]; x++, voxel++) {
+        if (mask && mask[voxel] === 0) continue
+        const base = row + x * spatialStride[2]
+        for (const offset of componentOffsets) {
+          visit(Number(data[base + offset]))
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Estimate a percentile from a histogram, interpolating linearly within
+ * the bin that contains it.
+ */
+function histogramPercentile(
+  counts: Float64Array,
+  edges: Float64Array,
+  count: number,
+  percentile: number,
+  min: number,
+  max: number,
+): number {
+  const target = (percentile / 100) * count
+  let cumulative = 0
+  for (let b = 0; b < counts.length; b++) {
+    if (counts[b] > 0 && cumulative + counts[b] >= target) {
+      const fraction = (target - cumulative) / counts[b]
+      const value = edges[b] + fraction * (edges[b + 1] - edges[b])
+      return Math.min(Math.max(value, min), max)
+    }
+    cumulative += counts[b]
+  }
+  return max
+}
@@ -1,9 +1,15 @@
 // SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
 // SPDX-License-Identifier: MIT
 
+import type { Omero } from "@fideus-labs/ngff-zarr"
 import type { SLICE_TYPE } from "@niivue/niivue"
 
-import type { ClipPlanes } from "./types.js"
+import type {
+  ClipPlanes,
+  LabelPick,
+  PlaybackDirection,
+  VolumeBounds,
+} from "./types.js"
 
 /**
  * Identifies what triggered a volume population.
@@ -14,6 +20,9 @@ export type PopulateTrigger =
   | "clipPlanesChanged" // Clip planes were modified
   | "sliceChanged" // Slice position changed (slab reload)
   | "viewportChanged" // Viewport pan/zoom/rotation changed
+  | "channelChanged" // Selected channel was switched
+  | "omeroChanged" // OMERO display settings were edited
+  | "timeChanged" // Time index changed (slab reload)
 
 /**
  * Type-safe event map for OMEZarrNVImage events.
@@ -72,6 +81,12 @@ export interface OMEZarrNVImageEventMap {
    */
   clipPlanesChange: { clipPlanes: ClipPlanes }
 
+  /**
+   * Fired when the crop box set by `setClipBox()` changes.
+   * `clipBox` is `null` once the box is replaced by other clip planes.
+   */
+  clipBoxChange: { clipBox: VolumeBounds | null }
+
   /**
    * Fired when populateVolume() completes and no more requests are queued.
    * This is the final event after all loading is done.
@@ -130,6 +145,93 @@ export interface OMEZarrNVImageEventMap {
     /** `true` if the frame was served from the pre-fetch cache */
     cached: boolean
   }
+
+  /** Fired when time-lapse playback starts */
+  playbackStart: {
+    /** Time index playback starts from */
+    index: number
+    /** Target frame rate */
+    fps: number
+    /** Whether playback loops */
+    loop: boolean
+    /** Playback direction */
+    direction: PlaybackDirection
+    /** Inclusive `[first, last]` time index range */
+    range: [number, number]
+  }
+
+  /**
+   * Fired when time-lapse playback stops, either via `pause()`/`stop()`,
+   * at the end of a non-looping range, or after a load error.
+   */
+  playbackStop: {
+    /** Why playback stopped */
+    reason: "paused" | "stopped" | "ended" | "error"
+    /** Time index displayed when playback stopped */
+    index: number
+    /** Number of frames displayed during this playback */
+    framesShown: number
+    /**
+     * Number of frames that could not be displayed on schedule because
+     * loading was slower than the target frame rate
+     */
+    droppedFrames: number
+  }
+
+  /**
+   * Fired when a channel's OMERO display settings are edited via
+   * `setChannelWindow()`, `setChannelColor()` or `setChannelVisible()`.
+   */
+  omeroChange: {
+    /** Updated OMERO metadata */
+    omero: Omero
+    /** Index of the edited channel */
+    channelIndex: number
+    /** Which setting was changed */
+    change: "window" | "color" | "visible"
+  }
+
+  /**
+   * Fired after the crosshair of an attached Niivue instance moves (after
+   * a short debounce), with the full-resolution value under it from
+   * `getValueAtWorld()`. Not fired when the crosshair is outside the
+   * volume.
+   */
+  voxelValue: {
+    /** World coordinate [x, y, z] of the crosshair */
+    worldCoord: [number, number, number]
+    /** Voxel index [z, y, x] at resolution level 0 */
+    voxel: [number, number, number]
+    /** Time index that was sampled */
+    timeIndex: number
+    /** Voxel value, or one value per channel for multi-channel images */
+    value: number | number[]
+  }
+
+  /**
+   * Fired by label images and label overlays after the crosshair of an
+   * attached Niivue instance moves (after a short debounce), with the
+   * full-resolution label under it from `pickLabel()`. A label overlay
+   * fires it on the overlay, following its parent image's crosshair.
+   */
+  labelHover: {
+    /** World coordinate [x, y, z] of the crosshair */
+    worldCoord: [number, number, number]
+    /** The label under the crosshair, or `null` outside the label image */
+    pick: LabelPick | null
+  }
+
+  /**
+   * Fired by `computeStatistics()` after each chunk it reads. Images
+   * without a `range` are read twice (min/max, then histogram), so
+   * `total` counts both passes.
+   */
+  statisticsProgress: {
+    /** Chunk reads completed so far */
+    loaded: number
+    /** Total chunk reads of the computation */
+    total: number
+  }
 }
 
 /**
@@ -0,0 +1,282 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+/**
+ * Extract a region of one resolution level of a {@link Multiscales} and
+ * write it as an OME-Zarr zip (`.ozx`) or OME-TIFF file.
+ *
+ * Pixel data is copied one source chunk at a time through a
+ * {@link RegionCoalescer} (sharing its chunk cache when one is given)
+ * into an in-memory Zarr array, then packaged with `toNgffZarrOzx` from
+ * `@fideus-labs/ngff-zarr` or `toOmeTiff` from `@fideus-labs/fiff`.
+ */
+
+import { toOmeTiff } from "@fideus-labs/fiff"
+import type { Metadata, Multiscales } from "@fideus-labs/ngff-zarr"
+import {
+  createDataset,
+  createMetadataWithVersion,
+  Multiscales as MultiscalesClass,
+  NgffImage,
+} from "@fideus-labs/ngff-zarr"
+import { toNgffZarrOzx } from "@fideus-labs/ngff-zarr/browser"
+import * as zarr from "zarrita"
+
+import { clipPlanesToPixelRegion } from "./ClipPlanes.js"
+import { RegionCoalescer } from "./RegionCoalescer.js"
+import { getChunkShape, getVolumeShape } from "./ResolutionSelector.js"
+import type { PixelRegion, VolumeBounds } from "./types.js"
+
+/** Output file format of {@link exportRegion}. */
+export type ExportFormat = "ozx" | "ome-tiff"
+
+/** Options for {@link exportRegion}. */
+export interface ExportRegionOptions {
+  /** Output file format */
+  format: ExportFormat
+  /**
+   * Region to export in world space (the space of
+   * `OMEZarrNVImage.getVolumeBounds()`). It is expanded to whole voxels
+   * and clamped to the volume.
+   * Default: the full volume
+   */
+  bounds?: VolumeBounds
+  /**
+   * Resolution level to export.
+   * Default: 0 (full resolution)
+   */
+  levelIndex?: number
+  /**
+   * Inclusive `[first, last]` time index range, for datasets with a
+   * `"t"` axis.
+   * Default: all time points
+   */
+  timeRange?: [number, number]
+  /**
+   * Coalescer to fetch through, e.g. an image's, so the export reuses
+   * its decoded-chunk cache.
+   * Default: a new coalescer without a cache
+   */
+  coalescer?: RegionCoalescer
+}
+
+/** Map from spatial dim name to its [z, y, x] PixelRegion index. */
+const SPATIAL_AXIS: Record<string, 0 | 1 | 2> = { z: 0, y: 1, x: 2 }
+
+/**
+ * Export a region of one resolution level as a single-scale OME-Zarr zip
+ * (`.ozx`, OME-Zarr 0.5) or OME-TIFF file.
+ *
+ * All channels are kept. The translation of the output is shifted by the
+ * region offset, so the exported image lines up with the source in world
+ * space.
+ *
+ * @param multiscales - The source multiscale image
+ * @param options - Format, region, level and time range
+ * @returns The file contents
+ * @throws If the level or time range is invalid, or the bounds do not
+ *   intersect the volume
+ *
+ * @example
+ * ```typescript
+ * const bytes = await exportRegion(multiscales, {
+ *   format: "ozx",
+ *   bounds: { min: [0, 0, 10], max: [50, 50, 20] },
+ *   levelIndex: 1,
+ * })
+ * ```
+ */
+export async function exportRegion(
+  multiscales: Multiscales,
+  options: ExportRegionOptions,
+): Promise<Uint8Array> {
+  const levelIndex = options.levelIndex ?? 0
+  if (
+    !Number.isInteger(levelIndex) ||
+    levelIndex < 0 ||
+    levelIndex >= multiscales.images.length
+  ) {
+    throw new Error(
+      `Invalid resolution level: ${levelIndex} (have ${multiscales.images.length} levels)`,
+    )
+  }
+  const source = multiscales.images[levelIndex]
+
+  const region = boundsToPixelRegion(source, options.bounds)
+  const [first, last] = resolveTimeRange(source, options.timeRange)
+  const coalescer = options.coalescer ?? new RegionCoalescer()
+
+  // Output array: same dims as the source, cropped to the region
+  const dims = source.dims
+  const shape = dims.map((dim, i) => {
+    const axis = SPATIAL_AXIS[dim]
+    if (axis !== undefined) return region.end[axis] - region.start[axis]
+    if (dim === "t") return last - first + 1
+    return source.data.shape[i]
+  })
+  const chunkShape = source.data.chunks.map((chunk, i) =>
+    dims[i] === "t" ? 1 : Math.min(chunk, shape[i]),
+  )
+  const output = await zarr.create(zarr.root(new Map()).resolve("0"), {
+    shape,
+    chunk_shape: chunkShape,
+    data_type: source.data.dtype,
+  })
+
+  // Copy one source chunk of one time point at a time, so only a single
+  // chunk is held in memory beside the output
+  const blocks = regionChunks(region, getChunkShape(source))
+  for (let t = first; t <= last; t++) {
+    for (const block of blocks) {
+      const result = await coalescer.fetchRegion(
+        source,
+        levelIndex,
+        block,
+        "export",
+        t,
+      )
+      const selection = dims.map((dim) => {
+        const axis = SPATIAL_AXIS[dim]
+        if (axis !== undefined) {
+          return zarr.slice(
+            block.start[axis] - region.start[axis],
+            block.end[axis] - region.start[axis],
+          )
+        }
+        return dim === "t" ? t - first : null
+      })
+      await zarr.set(output, selection, {
+        data: result.data,
+        shape: result.shape,
+        stride: result.stride,
+      } as zarr.Chunk<zarr.DataType>)
+    }
+  }
+
+  const scale = { ...source.scale }
+  const translation = { ...source.translation }
+  for (const dim of dims) {
+    const axis = SPATIAL_AXIS[dim]
+    const offset =
+      axis !== undefined ? region.start[axis] : dim === "t" ? first : 0
+    translation[dim] = (translation[dim] ?? 0) + offset * (scale[dim] ?? 1)
+  }
+
+  const image = new NgffImage({
+    data: output,
+    dims,
+    scale,
+    translation,
+    name: source.name,
+    axesUnits: source.axesUnits,
+    axesOrientations: source.axesOrientations,
+    computedCallbacks: undefined,
+  })
+  // toNgffZarrOzx requires OME-Zarr 0.5 metadata
+  const metadata: Metadata = createMetadataWithVersion(
+    {
+      ...multiscales.metadata,
+      datasets: [
+        createDataset(
+          "0",
+          dims.map((dim) => scale[dim] ?? 1),
+          dims.map((dim) => translation[dim] ?? 0),
+        ),
+      ],
+    },
+    "0.5",
+  )
+  const cropped = new MultiscalesClass({
+    images: [image],
+    metadata,
+    scaleFactors: undefined,
+    method: multiscales.method,
+    chunks: undefined,
+  })
+
+  if (options.format === "ome-tiff") {
+    return new Uint8Array(await toOmeTiff(cropped))
+  }
+  return toNgffZarrOzx(cropped, { enabledRfcs: [4] })
+}
+
+/**
+ * Convert world-space bounds to a pixel region of an image, throwing if
+ * the bounds do not intersect the volume.
+ */
+function boundsToPixelRegion(
+  ngffImage: NgffImage,
+  bounds: VolumeBounds | undefined,
+): PixelRegion {
+  if (!bounds) {
+    return { start: [0, 0, 0], end: getVolumeShape(ngffImage) }
+  }
+  const region = clipPlanesToPixelRegion([], bounds, ngffImage)
+  for (let axis = 0; axis < 3; axis++) {
+    if (region.end[axis] <= region.start[axis]) {
+      throw new Error(
+        `Export bounds [${bounds.min.join(", ")}] to [${bounds.max.join(", ")}] do not intersect the volume`,
+      )
+    }
+  }
+  return region
+}
+
+/**
+ * Split a pixel region along the source chunk grid.
+ *
+ * @returns The parts of each chunk that intersects `region`, in C order
+ */
+function regionChunks(
+  region: PixelRegion,
+  chunkShape: [number, number, number],
+): PixelRegion[] {
+  const starts = ([0, 1, 2] as const).map((axis) => {
+    const axisStarts: number[] = []
+    const size = chunkShape[axis]
+    const first = Math.floor(region.start[axis] / size) * size
+    for (let s = first; s < region.end[axis]; s += size) axisStarts.push(s)
+    return axisStarts
+  })
+  const blocks: PixelRegion[] = []
+  for (const z of starts[0]) {
+    for (const y of starts[1]) {
+      for (const x of starts[2]) {
+        const chunkStart = [z, y, x]
+        const start = chunkStart.map((s, axis) =>
+          Math.max(s, region.start[axis]),
+        ) as [number, number, number]
+        const end = chunkStart.map((s, axis) =>
+          Math.min(s + chunkShape[axis], region.end[axis]),
+        ) as [number, number, number]
+        blocks.push({ start, end })
+      }
+    }
+  }
+  return blocks
+}
+
+/**
+ * Validate a time range against an image's `"t"` axis, defaulting to all
+ * time points (`[0, 0]` without a time axis).
+ */
+function resolveTimeRange(
+  ngffImage: NgffImage,
+  timeRange: [number, number] | undefined,
+): [number, number] {
+  const tIndex = ngffImage.dims.indexOf("t")
+  const count = tIndex === -1 ? 1 : ngffImage.data.shape[tIndex]
+  const [first, last] = timeRange ?? [0, count - 1]
+  if (
+    !Number.isInteger(first) ||
+    !Number.isInteger(last) ||
+    first < 0 ||
+    last >= count ||
+    first > last
+  ) {
+    throw new Error(
+      `Invalid time range [${first}, ${last}] (have ${count} time points)`,
+    )
+  }
+  return [first, last]
+}
@@ -60,14 +60,30 @@ export {
   createAxisAlignedClipPlane,
   createClipPlane,
   createDefaultClipPlanes,
+  dimOutsideClipPlanes,
+  drawClipPlaneLines,
+  getVisibleChunks,
   getVolumeBoundsFromMultiscales,
+  hasObliqueClipPlanes,
+  insideClipPlanesMask,
   isInsideClipPlanes,
+  isRegionClipped,
   MAX_CLIP_PLANES,
+  maskOutsideClipPlanes,
+  niivueToClipPlane,
+  niivueToClipPlanes,
   normalizeVector,
   normalToAzimuthElevation,
   pointToPlaneDistance,
   validateClipPlanes,
 } from "./ClipPlanes.js"
+export type {
+  ComputeStatisticsOptions,
+  RegionStatistics,
+  StatisticsProgress,
+} from "./computeStatistics.js"
+// Region statistics and histograms
+export { computeStatistics } from "./computeStatistics.js"
 export type {
   OMEZarrNVImageEventListener,
   OMEZarrNVImageEventListenerOptions,
@@ -76,12 +92,27 @@ export type {
 } from "./events.js"
 // Event system (browser-native EventTarget API)
 export { OMEZarrNVImageEvent } from "./events.js"
+export type { ExportFormat, ExportRegionOptions } from "./exportRegion.js"
+// Region export to OME-Zarr zip / OME-TIFF
+export { exportRegion } from "./exportRegion.js"
 export type { FromTiffOptions } from "./fromTiff.js"
 // TIFF support (via @fideus-labs/fiff)
 export { fromTiff } from "./fromTiff.js"
-// RGB normalization utilities
-export type { ChannelWindow } from "./normalize.js"
-export { computeChannelMinMax, normalizeToUint8 } from "./normalize.js"
+// Label image metadata (NGFF image-label)
+export {
+  getLabelProperties,
+  openLabelMultiscales,
+  parseImageLabelMetadata,
+  readImageLabelMetadata,
+} from "./labels.js"
+// RGB normalization and composite utilities
+export type { ChannelWindow, CompositeChannel } from "./normalize.js"
+export {
+  compositeToRGBA,
+  computeChannelMinMax,
+  normalizeToUint8,
+  parseHexColor,
+} from "./normalize.js"
 // Main class
 export { OMEZarrNVImage } from "./OMEZarrNVImage.js"
 // Region coalescer
@@ -98,6 +129,13 @@ export {
   select2DResolution,
   selectResolution,
 } from "./ResolutionSelector.js"
+export type {
+  LineInterpolation,
+  LineProfile,
+  SampleLineOptions,
+} from "./sampleLine.js"
+// Line intensity profiles
+export { sampleLine } from "./sampleLine.js"
 // Types
 export type {
   AttachedNiivueState,
@@ -106,17 +144,31 @@ export type {
   ChunkAlignedRegion,
   ChunkCache,
   ClipPlane,
+  ClipPlaneAnimationOptions,
+  ClipPlaneEasing,
   ClipPlanes,
+  ImageLabelColor,
+  ImageLabelMetadata,
+  ImageLabelProperty,
+  LabelInfo,
+  LabelPick,
+  NiftiExportOptions,
   OMEZarrNVImageOptions,
   PixelRegion,
+  PlaybackDirection,
+  PlaybackOptions,
   RegionFetchResult,
   ResolutionSelection,
   SlabBufferState,
+  SlabClipDisplay,
   SlabSliceType,
   TimeAxisInfo,
+  TimeCourseOptions,
   TimeUnit,
   TypedArray,
+  ValueAtWorldOptions,
   VolumeBounds,
+  WindowStrategy,
   ZarrDtype,
 } from "./types.js"
 // Re-export SLICE_TYPE from types (which re-exports from niivue)
@@ -127,6 +179,7 @@ export {
   getNiftiDataType,
   getRGBNiftiDataType,
   getTypedArrayConstructor,
+  isCompositeImage,
   isRGBImage,
   NiftiDataType,
   needsRGBNormalization,
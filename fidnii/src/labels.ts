@@ -0,0 +1,156 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+/**
+ * NGFF `image-label` metadata of label images: reading it from the Zarr
+ * store and resolving per-label names and colors.
+ *
+ * `fromNgffZarr` parses the `multiscales` metadata only, so the
+ * `image-label` attributes are read separately from the group that holds
+ * the resolution level arrays.
+ */
+
+import type { Multiscales } from "@fideus-labs/ngff-zarr"
+import { fromNgffZarr } from "@fideus-labs/ngff-zarr/browser"
+import type { Readable } from "zarrita"
+import * as zarr from "zarrita"
+
+import type { ImageLabelMetadata, LabelInfo } from "./types.js"
+
+/** Property keys holding a label's name, in order of preference. */
+const NAME_KEYS = ["name", "label", "class", "description"]
+
+/**
+ * Read the NGFF `image-label` metadata of a label image from its store.
+ *
+ * Looks in the attributes of the group containing the first resolution
+ * level (`ome["image-label"]` for OME-Zarr 0.5, `"image-label"` for 0.4).
+ *
+ * @param multiscales - The label multiscales
+ * @returns The metadata, or `undefined` if absent or unreadable
+ */
+export async function readImageLabelMetadata(
+  multiscales: Multiscales,
+): Promise<ImageLabelMetadata | undefined> {
+  try {
+    const array = multiscales.images[0].data
+    const group = await zarr.open(array.resolve(".."), { kind: "group" })
+    const attrs = group.attrs as Record<string, unknown>
+    const ome = attrs.ome as Record<string, unknown> | undefined
+    const imageLabel = ome?.["image-label"] ?? attrs["image-label"]
+    return imageLabel && typeof imageLabel === "object"
+      ? (imageLabel as ImageLabelMetadata)
+      : undefined
+  } catch {
+    // In-memory stores and stores without group metadata
+    return undefined
+  }
+}
+
+/**
+ * Open a label image stored alongside an image, e.g. in its `labels/`
+ * group.
+ *
+ * HTTP(S) URLs are opened directly. Any other path is resolved relative
+ * to the image's multiscales group, in the same store.
+ *
+ * @param multiscales - The image the labels belong to
+ * @param path - Label group path (e.g. `"labels/nuclei"`) or URL
+ * @returns The label multiscales
+ *
+ * @example
+ * ```typescript
+ * const nuclei = await openLabelMultiscales(multiscales, "labels/nuclei");
+ * ```
+ */
+export async function openLabelMultiscales(
+  multiscales: Multiscales,
+  path: string,
+): Promise<Multiscales> {
+  if (/^https?:\/\//.test(path)) {
+    return fromNgffZarr(path)
+  }
+
+  // Serve the label group as the root of a store, so fromNgffZarr finds
+  // its multiscales metadata
+  const group = multiscales.images[0].data.resolve("..").resolve(path)
+  const store = group.store as Readable
+  const keyOf = (key: string) => group.resolve(key.slice(1)).path
+  const labelStore: Readable = {
+    get: async (key, options) => store.get(keyOf(key), options),
+  }
+  if (store.getRange) {
+    const getRange = store.getRange.bind(store)
+    labelStore.getRange = async (key, range, options) =>
+      getRange(keyOf(key), range, options)
+  }
+  return fromNgffZarr(labelStore)
+}
+
+/**
+ * Collect the `image-label` properties of one label value.
+ *
+ * @param imageLabel - NGFF `image-label` metadata
+ * @param value - The label value
+ * @returns All properties of the label except `label-value` (empty when
+ *   it has none)
+ */
+export function getLabelProperties(
+  imageLabel: ImageLabelMetadata | undefined,
+  value: number,
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+  for (const property of imageLabel?.properties ?? []) {
+    if (property["label-value"] !== value) continue
+    const { "label-value": _value, ...rest } = property
+    Object.assign(properties, rest)
+  }
+  return properties
+}
+
+/**
+ * Resolve the name and color of each label value with metadata.
+ *
+ * Names come from the first string property among `name`, `label`,
+ * `class` and `description`. Colors missing an alpha value are opaque;
+ * malformed colors are ignored.
+ *
+ * @param imageLabel - NGFF `image-label` metadata
+ * @returns Name and color by label value
+ */
+export function parseImageLabelMetadata(
+  imageLabel: ImageLabelMetadata | undefined,
+): Map<number, LabelInfo> {
+  const info = new Map<number, LabelInfo>()
+  const entry = (value: number) => {
+    let labelInfo = info.get(value)
+    if (!labelInfo) {
+      labelInfo = {}
+      info.set(value, labelInfo)
+    }
+    return labelInfo
+  }
+
+  for (const color of imageLabel?.colors ?? []) {
+    const value = color["label-value"]
+    const rgba = color.rgba
+    if (
+      !Number.isFinite(value) ||
+      !Array.isArray(rgba) ||
+      rgba.length < 3 ||
+      !rgba.every((c) => Number.isFinite(c))
+    ) {
+      continue
+    }
+    entry(value).rgba = [rgba[0], rgba[1], rgba[2], rgba[3] ?? 255]
+  }
+
+  for (const property of imageLabel?.properties ?? []) {
+    const value = property["label-value"]
+    if (!Number.isFinite(value)) continue
+    const key = NAME_KEYS.find((k) => typeof property[k] === "string")
+    if (key) entry(value).name = property[key] as string
+  }
+
+  return info
+}
@@ -117,3 +117,104 @@ export function computeChannelMinMax(
 
   return windows
 }
+
+/**
+ * Per-channel settings for additive composite rendering.
+ */
+export interface CompositeChannel {
+  /** Display window; values in `[start, end]` map to intensity `[0, 1]` */
+  window: ChannelWindow
+  /** Tint color as `[r, g, b]`, each in `[0, 255]` */
+  color: [number, number, number]
+  /** Whether this channel contributes to the composite */
+  active: boolean
+}
+
+/**
+ * Parse an OMERO hex color string (e.g. `"FF00FF"` or `"#FF00FF"`).
+ *
+ * @param hex - 6-digit hexadecimal color, with or without a leading `#`
+ * @returns The color as `[r, g, b]`, each in `[0, 255]`. Malformed
+ *   strings fall back to white.
+ */
+export function parseHexColor(hex: string): [number, number, number] {
+  const normalized = hex.replace(/^#/, "")
+  if (!/^[0-9a-fA-F]{6}$/.test(normalized)) return [255, 255, 255]
+  return [
+    parseInt(normalized.slice(0, 2), 16),
+    parseInt(normalized.slice(2, 4), 16),
+    parseInt(normalized.slice(4, 6), 16),
+  ]
+}
+
+/**
+ * Blend interleaved multi-channel data into a uint8 RGBA composite.
+ *
+ * Each active channel is windowed to `[0, 1]`, multiplied by its tint
+ * color and summed additively into the RGB output (saturating at 255).
+ * Alpha is set to the brightest RGB component so that voxels where no
+ * channel has signal stay transparent in 3D renders.
+ *
+ * @param source - Interleaved multi-channel data
+ *   (`[c0, c1, ..., cN, c0, c1, ...]`)
+ * @param components - Number of channels per voxel
+ * @param channels - Per-channel window, color and active flag; must
+ *   have `components` entries. Missing entries are treated as inactive.
+ * @returns A new `Uint8Array` with 4 elements (RGBA) per voxel
+ *
+ * @example
+ * ```ts
+ * const src = new Uint16Array([1000, 0, 0, 500])
+ * const rgba = compositeToRGBA(src, 2, [
+ *   { window: { start: 0, end: 1000 }, color: [0, 255, 0], active: true },
+ *   { window: { start: 0, end: 1000 }, color: [255, 0, 255], active: true },
+ * ])
+ * // rgba ≈ Uint8Array [0, 255, 0, 255, 128, 0, 128, 128]
+ * ```
+ */
+export function compositeToRGBA(
+  source: TypedArray,
+  components: number,
+  channels: CompositeChannel[],
+): Uint8Array {
+  const numVoxels = Math.floor(source.length / components)
+  const output = new Uint8Array(numVoxels * 4)
+
+  // Pre-compute per-channel scale factors, skipping inactive channels
+  const active: number[] = []
+  const offsets: number[] = []
+  const scales: number[] = []
+  const tints: [number, number, number][] = []
+  for (let c = 0; c < components; c++) {
+    const channel = channels[c]
+    if (!channel?.active) continue
+    const range = channel.window.end - channel.window.start
+    active.push(c)
+    offsets.push(channel.window.start)
+    scales.push(range > 0 ? 1 / range : 0)
+    tints.push(channel.color)
+  }
+
+  for (let v = 0; v < numVoxels; v++) {
+    const base = v * components
+    let r = 0
+    let g = 0
+    let b = 0
+    for (let i = 0; i < active.length; i++) {
+      let t = (source[base + active[i]] - offsets[i]) * scales[i]
+      if (t <= 0) continue
+      if (t > 1) t = 1
+      const tint = tints[i]
+      r += t * tint[0]
+      g += t * tint[1]
+      b += t * tint[2]
+    }
+    const out = v * 4
+    output[out] = r >= 255 ? 255 : (r + 0.5) | 0
+    output[out + 1] = g >= 255 ? 255 : (g + 0.5) | 0
+    output[out + 2] = b >= 255 ? 255 : (b + 0.5) | 0
+    output[out + 3] = Math.max(output[out], output[out + 1], output[out + 2])
+  }
+
+  return output
+}
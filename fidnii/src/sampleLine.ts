@@ -0,0 +1,415 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+/**
+ * Sample voxel values along a world-space line segment of a
+ * {@link Multiscales}, for intensity profiles across membranes, vessels
+ * and other thin structures.
+ *
+ * Only the chunks the line passes through are fetched, one
+ * {@link RegionCoalescer} request per chunk, so long oblique lines do not
+ * read the bounding box of the segment.
+ */
+
+import type { Multiscales, NgffImage } from "@fideus-labs/ngff-zarr"
+
+import { RegionCoalescer } from "./RegionCoalescer.js"
+import { getChunkShape, getVolumeShape } from "./ResolutionSelector.js"
+import type { PixelRegion, RegionFetchResult } from "./types.js"
+import { createAffineFromNgffImage } from "./utils/affine.js"
+import { worldToPixelAffine } from "./utils/coordinates.js"
+
+/** Interpolation of {@link sampleLine} between voxel centers. */
+export type LineInterpolation = "nearest" | "trilinear"
+
+/** Options for {@link sampleLine}. */
+export interface SampleLineOptions {
+  /**
+   * Number of evenly spaced samples, including both end points.
+   * Default: about one sample per voxel of the selected level
+   */
+  samples?: number
+  /**
+   * Resolution level to sample. When omitted, the finest level whose
+   * touched chunks fit in `maxPixels` is used.
+   */
+  levelIndex?: number
+  /**
+   * Interpolation between voxel centers.
+   * Default: `"nearest"`
+   */
+  interpolation?: LineInterpolation
+  /**
+   * Budget for automatic level selection, in voxels of all chunks the
+   * line touches.
+   * Default: 16_000_000
+   */
+  maxPixels?: number
+  /**
+   * Time point to sample, for datasets with a `"t"` axis.
+   * Default: 0
+   */
+  timeIndex?: number
+  /**
+   * Channel of the `"c"` axis to sample.
+   * Default: all channels
+   */
+  channelIndex?: number
+  /** Optional AbortSignal to cancel the chunk fetches */
+  signal?: AbortSignal
+  /**
+   * Coalescer to fetch through, e.g. an image's, so sampling reuses its
+   * decoded-chunk cache.
+   * Default: a new coalescer without a cache
+   */
+  coalescer?: RegionCoalescer
+}
+
+/** Result of {@link sampleLine}. */
+export interface LineProfile {
+  /** World coordinate `[x, y, z]` of each sample */
+  positions: [number, number, number][]
+  /** Distance of each sample from the start point, in world units */
+  distances: Float64Array
+  /**
+   * Sample values, `components` per sample (interleaved). Samples outside
+   * the volume are `NaN`.
+   */
+  values: Float64Array
+  /** Number of values per sample (channels of multi-channel images) */
+  components: number
+  /** Resolution level that was sampled */
+  levelIndex: number
+}
+
+/** Default touched-chunk budget of automatic level selection. */
+const DEFAULT_MAX_PIXELS = 16_000_000
+
+/** Map from spatial dim name to its [z, y, x] PixelRegion index. */
+const SPATIAL_AXIS: Record<string, 0 | 1 | 2> = { z: 0, y: 1, x: 2 }
+
+/** Sample positions of a line in the pixel space of one level. */
+interface LevelPlan {
+  /** Pixel coordinate `[z, y, x]` of each sample, `null` outside */
+  pixels: ([number, number, number] | null)[]
+  /** Touched chunk regions by chunk key */
+  chunks: Map<string, PixelRegion>
+  /** Total voxels of the touched chunks */
+  pixelCount: number
+}
+
+/**
+ * Sample voxel values along the segment from `p0` to `p1`.
+ *
+ * @param multiscales - The source multiscale image
+ * @param p0 - Start point `[x, y, z]` in world space (the space of
+ *   `OMEZarrNVImage.getVolumeBounds()`)
+ * @param p1 - End point `[x, y, z]` in world space
+ * @param options - Sample count, level, interpolation and budget
+ * @returns Sample positions, distances and values
+ * @throws If the level, time index or sample count is invalid
+ *
+ * @example
+ * ```typescript
+ * const profile = await sampleLine(multiscales, [0, 0, 10], [5, 5, 10], {
+ *   interpolation: "trilinear",
+ * })
+ * plot(profile.distances, profile.values)
+ * ```
+ */
+export async function sampleLine(
+  multiscales: Multiscales,
+  p0: [number, number, number],
+  p1: [number, number, number],
+  options: SampleLineOptions = {},
+): Promise<LineProfile> {
+  const interpolation = options.interpolation ?? "nearest"
+  const { samples } = options
+  if (samples !== undefined && (!Number.isInteger(samples) || samples < 2)) {
+    throw new Error(`Invalid sample count: ${samples} (need at least 2)`)
+  }
+
+  let levelIndex = options.levelIndex
+  let plan: LevelPlan
+  if (levelIndex !== undefined) {
+    if (
+      !Number.isInteger(levelIndex) ||
+      levelIndex < 0 ||
+      levelIndex >= multiscales.images.length
+    ) {
+      throw new Error(
+        `Invalid resolution level: ${levelIndex} (have ${multiscales.images.length} levels)`,
+      )
+    }
+    plan = planLevel(
+      multiscales.images[levelIndex],
+      p0,
+      p1,
+      samples,
+      interpolation,
+    )
+  } else {
+    // Finest level whose touched chunks fit the budget, else the coarsest
+    const maxPixels = options.maxPixels ?? DEFAULT_MAX_PIXELS
+    levelIndex = 0
+    plan = planLevel(multiscales.images[0], p0, p1, samples, interpolation)
+    while (
+      plan.pixelCount > maxPixels &&
+      levelIndex < multiscales.images.length - 1
+    ) {
+      levelIndex++
+      plan = planLevel(
+        multiscales.images[levelIndex],
+        p0,
+        p1,
+        samples,
+        interpolation,
+      )
+    }
+  }
+
+  const ngffImage = multiscales.images[levelIndex]
+  const timeIndex = options.timeIndex ?? 0
+  const tAxis = ngffImage.dims.indexOf("t")
+  const timeCount = tAxis === -1 ? 1 : ngffImage.data.shape[tAxis]
+  if (!Number.isInteger(timeIndex) || timeIndex < 0 || timeIndex >= timeCount) {
+    throw new Error(
+      `Invalid time index: ${timeIndex} (have ${timeCount} time points)`,
+    )
+  }
+
+  // Fetch each touched chunk on its own
+  const coalescer = options.coalescer ?? new RegionCoalescer()
+  const keys = [...plan.chunks.keys()]
+  const results = await Promise.all(
+    keys.map((key) =>
+      coalescer.fetchRegion(
+        ngffImage,
+        levelIndex,
+        plan.chunks.get(key) as PixelRegion,
+        "line-profile",
+        timeIndex,
+        options.signal,
+        options.channelIndex,
+      ),
+    ),
+  )
+  const chunkData = new Map<string, RegionFetchResult>(
+    keys.map((key, i) => [key, results[i]]),
+  )
+
+  // Integer selections ("t", and "c" when a channel is selected) drop
+  // their dimension from the fetched data. The other non-spatial dims
+  // hold the components.
+  const keptDims = ngffImage.dims.filter(
+    (dim) =>
+      dim !== "t" && !(dim === "c" && options.channelIndex !== undefined),
+  )
+  let components = 1
+  ngffImage.dims.forEach((dim, i) => {
+    if (keptDims.includes(dim) && !(dim in SPATIAL_AXIS)) {
+      components *= ngffImage.data.shape[i]
+    }
+  })
+
+  const chunkShape = getChunkShape(ngffImage)
+  const volumeShape = getVolumeShape(ngffImage)
+  const readVoxel = (voxel: [number, number, number], out: number[]) => {
+    const key = chunkKey(voxel, chunkShape)
+    const region = plan.chunks.get(key) as PixelRegion
+    const result = chunkData.get(key) as RegionFetchResult
+    readComponents(keptDims, result, region, voxel, components, out)
+  }
+
+  const n = plan.pixels.length
+  const values = new Float64Array(n * components).fill(Number.NaN)
+  const voxelValues = new Array<number>(components)
+  for (let s = 0; s < n; s++) {
+    const pixel = plan.pixels[s]
+    if (!pixel) continue
+    const offset = s * components
+    if (interpolation === "nearest") {
+      readVoxel(roundVoxel(pixel), voxelValues)
+      for (let c = 0; c < components; c++) {
+        values[offset + c] = voxelValues[c]
+      }
+      continue
+    }
+    values.fill(0, offset, offset + components)
+    for (const [voxel, weight] of trilinearCorners(pixel, volumeShape)) {
+      if (weight === 0) continue
+      readVoxel(voxel, voxelValues)
+      for (let c = 0; c < components; c++) {
+        values[offset + c] += weight * voxelValues[c]
+      }
+    }
+  }
+
+  const positions: [number, number, number][] = []
+  const distances = new Float64Array(n)
+  const length = Math.hypot(p1[0] - p0[0], p1[1] - p0[1], p1[2] - p0[2])
+  for (let s = 0; s < n; s++) {
+    const f = s / (n - 1)
+    positions.push([
+      p0[0] + f * (p1[0] - p0[0]),
+      p0[1] + f * (p1[1] - p0[1]),
+      p0[2] + f * (p1[2] - p0[2]),
+    ])
+    distances[s] = f * length
+  }
+
+  return { positions, distances, values, components, levelIndex }
+}
+
+/**
+ * Compute the sample pixel coordinates of a line at one level and the
+ * chunks they touch.
+ */
+function planLevel(
+  ngffImage: NgffImage,
+  p0: [number, number, number],
+  p1: [number, number, number],
+  samples: number | undefined,
+  interpolation: LineInterpolation,
+): LevelPlan {
+  const affine = createAffineFromNgffImage(ngffImage)
+  const a = worldToPixelAffine(p0, affine)
+  const b = worldToPixelAffine(p1, affine)
+  const shape = getVolumeShape(ngffImage)
+  const chunkShape = getChunkShape(ngffImage)
+
+  const lengthInVoxels = Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2])
+  const n = samples ?? Math.max(2, Math.ceil(lengthInVoxels) + 1)
+
+  const pixels: ([number, number, number] | null)[] = []
+  const chunks = new Map<string, PixelRegion>()
+  const touch = (voxel: [number, number, number]) => {
+    const key = chunkKey(voxel, chunkShape)
+    if (chunks.has(key)) return
+    const start = voxel.map(
+      (v, axis) => Math.floor(v / chunkShape[axis]) * chunkShape[axis],
+    ) as [number, number, number]
+    const end = start.map((v, axis) =>
+      Math.min(v + chunkShape[axis], shape[axis]),
+    ) as [number, number, number]
+    chunks.set(key, { start, end })
+  }
+
+  for (let s = 0; s < n; s++) {
+    const f = s / (n - 1)
+    const pixel: [number, number, number] = [
+      a[0] + f * (b[0] - a[0]),
+      a[1] + f * (b[1] - a[1]),
+      a[2] + f * (b[2] - a[2]),
+    ]
+    // Outside when the nearest voxel is outside the volume
+    const outside = pixel.some((v, axis) => v < -0.5 || v >= shape[axis] - 0.5)
+    if (outside) {
+      pixels.push(null)
+      continue
+    }
+    pixels.push(pixel)
+    if (interpolation === "nearest") {
+      touch(roundVoxel(pixel))
+    } else {
+      for (const [voxel, weight] of trilinearCorners(pixel, shape)) {
+        if (weight !== 0) touch(voxel)
+      }
+    }
+  }
+
+  let pixelCount = 0
+  for (const { start, end } of chunks.values()) {
+    pixelCount +=
+      (end[0] - start[0]) * (end[1] - start[1]) * (end[2] - start[2])
+  }
+  return { pixels, chunks, pixelCount }
+}
+
+/** Key of the chunk containing a voxel. */
+function chunkKey(
+  voxel: [number, number, number],
+  chunkShape: [number, number, number],
+): string {
+  return voxel.map((v, axis) => Math.floor(v / chunkShape[axis])).join(",")
+}
+
+/** Round a pixel coordinate (inside the volume) to its nearest voxel. */
+function roundVoxel(pixel: [number, number, number]): [number, number, number] {
+  return [
+    Math.max(0, Math.round(pixel[0])),
+    Math.max(0, Math.round(pixel[1])),
+    Math.max(0, Math.round(pixel[2])),
+  ]
+}
+
+/**
+ * The eight voxels around a pixel coordinate with their trilinear weights,
+ * clamping to the volume edge.
+ */
+function trilinearCorners(
+  pixel: [number, number, number],
+  shape: [number, number, number],
+): [[number, number, number], number][] {
+  const lo: number[] = []
+  const hi: number[] = []
+  const frac: number[] = []
+  for (let axis = 0; axis < 3; axis++) {
+    const v = Math.min(Math.max(pixel[axis], 0), shape[axis] - 1)
+    lo.push(Math.floor(v))
+    hi.push(Math.min(Math.floor(v) + 1, shape[axis] - 1))
+    frac.push(v - Math.floor(v))
+  }
+  const corners: [[number, number, number], number][] = []
+  for (let i = 0; i < 8; i++) {
+    const voxel: [number, number, number] = [0, 0, 0]
+    let weight = 1
+    for (let axis = 0; axis < 3; axis++) {
+      const upper = (i >> (2 - axis)) & 1
+      voxel[axis] = upper ? hi[axis] : lo[axis]
+      weight *= upper ? frac[axis] : 1 - frac[axis]
+    }
+    corners.push([voxel, weight])
+  }
+  return corners
+}
+
+/**
+ * Read all components of one voxel from a fetched chunk.
+ *
+ * @param keptDims - Dimension names of the fetched data, in order
+ * @param result - The fetched chunk
+ * @param region - Pixel region of the chunk
+ * @param voxel - Voxel index `[z, y, x]` inside the chunk region
+ * @param components - Number of components per voxel
+ * @param out - Receives the component values
+ */
+function readComponents(
+  keptDims: string[],
+  result: RegionFetchResult,
+  region: PixelRegion,
+  voxel: [number, number, number],
+  components: number,
+  out: number[],
+): void {
+  let base = 0
+  const componentStrides: { size: number; stride: number }[] = []
+  keptDims.forEach((dim, d) => {
+    const axis = SPATIAL_AXIS[dim]
+    if (axis !== undefined) {
+      base += (voxel[axis] - region.start[axis]) * result.stride[d]
+    } else {
+      componentStrides.push({ size: result.shape[d], stride: result.stride[d] })
+    }
+  })
+  for (let c = 0; c < components; c++) {
+    let offset = base
+    let rest = c
+    for (let j = componentStrides.length - 1; j >= 0; j--) {
+      const { size, stride } = componentStrides[j]
+      offset += (rest % size) * stride
+      rest = Math.floor(rest / size)
+    }
+    out[c] = Number(result.data[offset])
+  }
+}
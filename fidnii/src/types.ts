@@ -27,6 +27,62 @@ export interface ClipPlane {
  */
 export type ClipPlanes = ClipPlane[]
 
+/**
+ * Easing of a clip plane animation: a named curve, or a function mapping
+ * linear progress in `[0, 1]` to eased progress.
+ */
+export type ClipPlaneEasing =
+  | "linear"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out"
+  | ((t: number) => number)
+
+/**
+ * Options for {@link OMEZarrNVImage.animateClipPlane}.
+ *
+ * Positions are signed distances in world units from the volume center
+ * along the plane's normal.
+ */
+export interface ClipPlaneAnimationOptions {
+  /**
+   * Start position.
+   * Default: the plane's current position
+   */
+  from?: number
+  /** End position */
+  to: number
+  /**
+   * Duration of the sweep in milliseconds.
+   * Default: 1000
+   */
+  durationMs?: number
+  /**
+   * Easing curve.
+   * Default: "ease-in-out"
+   */
+  easing?: ClipPlaneEasing
+}
+
+/**
+ * How 2D slab views show voxels outside the clip planes:
+ * - `"none"`: unchanged (only the 3D view is clipped)
+ * - `"dim"`: darkened toward the display window start
+ * - `"hide"`: zeroed, like {@link OMEZarrNVImageOptions.maskClipPlanes}
+ */
+export type SlabClipDisplay = "none" | "dim" | "hide"
+
+/**
+ * How the display window of each channel is chosen:
+ * - `"omero"`: the file's OMERO window, or one computed from the data
+ *   when the file has none
+ * - `"percentile"`: the {@link OMEZarrNVImageOptions.windowPercentiles}
+ *   of the data
+ * - `"minmax"`: the full data range
+ * - `"fixed"`: {@link OMEZarrNVImageOptions.fixedWindow}
+ */
+export type WindowStrategy = "omero" | "percentile" | "minmax" | "fixed"
+
 /**
  * Volume bounds in world space.
  */
@@ -66,7 +122,10 @@ export interface ResolutionSelection {
   levelIndex: number
   /** Dimensions of the buffer [z, y, x] */
   dimensions: [number, number, number]
-  /** Total pixel count */
+  /**
+   * Total pixel count (including all time points in 4D mode). Chunks that
+   * oblique clip planes cut away entirely are not counted.
+   */
   pixelCount: number
 }
 
@@ -183,6 +242,135 @@ export interface OMEZarrNVImageOptions {
    * Only relevant for datasets with a `"t"` (time) dimension.
    */
   timePrefetchCount?: number
+  /**
+   * Memory budget of the time frame cache in bytes (default: 256 MiB).
+   *
+   * Loaded and pre-fetched 3D time frames are kept per resolution level
+   * and region, so frames stay usable after clip-plane or viewport changes
+   * when the user returns to a previous region. Least recently used frames
+   * are evicted once the budget is exceeded. Must be a non-negative
+   * integer; `0` disables the cache (and with it time frame pre-fetching).
+   *
+   * Only relevant for datasets with a `"t"` (time) dimension.
+   */
+  timeFrameCacheBytes?: number
+  /**
+   * Render multi-channel images as an additive color composite.
+   *
+   * Each channel is windowed with its OMERO `window`, tinted with its
+   * OMERO `color` and summed into an RGBA buffer. Channels whose OMERO
+   * `active` flag is `false` are left out of the blend.
+   *
+   * Defaults to `true` for images whose `"c"` axis does not have 3 or 4
+   * components (those cannot be displayed as RGB/RGBA), and `false`
+   * otherwise. Set to `true` to composite 3- or 4-channel fluorescence
+   * data instead of interpreting it as RGB/RGBA.
+   *
+   * Ignored for images without a `"c"` dimension.
+   */
+  composite?: boolean
+  /**
+   * Load a single channel of a multi-channel image as a scalar volume.
+   *
+   * The selected index is fetched from the `"c"` axis and rendered with
+   * that channel's OMERO window, like an image without a channel
+   * dimension. Use {@link OMEZarrNVImage.setChannel} to switch channels
+   * after creation.
+   *
+   * Default: all channels (RGB/RGBA or composite rendering).
+   */
+  channel?: number
+  /**
+   * Load the inclusive time index range `[t0, t1]` as one 4D volume.
+   *
+   * All time points of the range are fetched into a single NVImage with
+   * `hdr.dims[4] = t1 - t0 + 1`, so NiiVue's own frame stepping
+   * (`frame4D`) and per-voxel time-course graphs work directly. The pixel
+   * budget covers all frames, so longer ranges load at lower resolution.
+   * `setTimeIndex()` switches frames without refetching but is limited to
+   * the range.
+   *
+   * Only supported for scalar data (or a single selected `channel`).
+   * Default: one time point at a time.
+   */
+  timeRange?: [number, number]
+  /**
+   * Apply clip planes by masking voxels on the CPU (default: false).
+   *
+   * Voxels outside the clip planes are zeroed in the fetched 3D and slab
+   * buffers before upload, so any number of planes can be combined (a
+   * convex polytope) and 2D slab views respect the clipping too. NiiVue's
+   * shader still clips with the first 6 planes for immediate feedback;
+   * every clip plane change refetches (from the chunk cache) to re-mask.
+   */
+  maskClipPlanes?: boolean
+  /**
+   * How 2D slab views show voxels outside the clip planes (default:
+   * "none").
+   *
+   * Applied to slab buffers on the CPU after each fetch, so the 2D views
+   * agree with the clipped 3D rendering. Label images are hidden rather
+   * than dimmed, since dimming would change label values. Clip plane
+   * changes reload the slabs (from the chunk cache).
+   */
+  slabClipDisplay?: SlabClipDisplay
+  /**
+   * Draw the intersection lines of the clip planes in 2D slab views
+   * (default: false).
+   *
+   * Line voxels are set to the display window end (full intensity for
+   * RGB/RGBA) in the slab buffers; they are not drawn for label images.
+   * Clip plane changes reload the slabs.
+   */
+  slabClipLines?: boolean
+  /**
+   * How the display window of each channel is chosen (default: "omero").
+   *
+   * `"percentile"` and `"minmax"` windows are computed once from the
+   * lowest resolution level, so they are the same in every session and do
+   * not change when higher resolution levels load. Channel colors and
+   * labels still come from the file's OMERO metadata when present.
+   */
+  windowStrategy?: WindowStrategy
+  /**
+   * Lower and upper percentiles, in [0, 100], of the `"percentile"`
+   * window strategy (default: [2, 98]).
+   */
+  windowPercentiles?: [number, number]
+  /**
+   * Display window `[start, end]` in data units of the `"fixed"` window
+   * strategy, applied to every channel. Required for `"fixed"`.
+   */
+  fixedWindow?: [number, number]
+  /**
+   * Keep the display window as chosen by the window strategy
+   * (default: `true` for `"fixed"`, otherwise `false`).
+   *
+   * By default the window is widened when a higher resolution level
+   * contains values outside it, so bright or dark voxels that were
+   * averaged out at lower resolutions are not clipped. Locking the window
+   * disables this, keeping contrast identical across resolution levels.
+   * With the `"omero"` strategy on an image without OMERO metadata, the
+   * window computed for the first loaded level is also kept, rather than
+   * recomputed at the target level.
+   */
+  lockWindow?: boolean
+  /**
+   * NGFF `image-label` metadata (label names and colors) of a label
+   * image.
+   *
+   * Default: read from the attributes of the multiscales group in the
+   * Zarr store, when present.
+   */
+  imageLabel?: ImageLabelMetadata
+  /**
+   * Render the image as a label image (default: only when the
+   * multiscales method is `Methods.ITKWASM_LABEL_IMAGE`).
+   *
+   * Set this for label images from an OME-Zarr `labels/` group, whose
+   * multiscales carry no label method.
+   */
+  labelImage?: boolean
 }
 
 /**
@@ -388,10 +576,35 @@ export interface TimeAxisInfo {
 }
 
 /**
- * A pre-fetched 3D frame ready for instant buffer swap.
+ * Chunks fetched for a region when oblique clip planes cut away the rest.
+ * Skipped chunks are zero-filled.
+ */
+export interface ChunkCulling {
+  /** Regions of the chunks that are not entirely clipped */
+  chunks: PixelRegion[]
+  /** Identifies the clip planes the chunks were culled with */
+  key: string
+}
+
+/**
+ * Region and resolution level of the last load of a buffer, used to serve
+ * and pre-fetch time frames of the same region.
+ */
+export interface LoadedRegion {
+  /** The chunk-aligned pixel region that was loaded */
+  region: ChunkAlignedRegion
+  /** The resolution level that was loaded */
+  levelIndex: number
+  /** Chunk culling of the load, or `null` if every chunk was fetched */
+  culling: ChunkCulling | null
+}
+
+/**
+ * A loaded or pre-fetched 3D frame ready for instant buffer swap.
  *
  * Used by the time frame cache to avoid re-fetching when scrubbing
- * through adjacent time points.
+ * through adjacent time points or returning to a previous region.
+ * `data` holds the raw fetched values (before any channel windowing).
  */
 export interface CachedTimeFrame {
   /** The typed array pixel data for this frame */
@@ -404,6 +617,152 @@ export interface CachedTimeFrame {
   region: ChunkAlignedRegion
 }
 
+/**
+ * Direction of time-lapse playback.
+ *
+ * - `"forward"`: increasing time index
+ * - `"backward"`: decreasing time index
+ * - `"pingpong"`: forward, then backward, bouncing at the range ends
+ */
+export type PlaybackDirection = "forward" | "backward" | "pingpong"
+
+/**
+ * Options for {@link OMEZarrNVImage.play}.
+ */
+export interface PlaybackOptions {
+  /**
+   * Target frame rate in frames per second. Playback never runs faster
+   * than frames can be loaded; frames that miss their slot are counted
+   * as dropped.
+   * Default: 10
+   */
+  fps?: number
+  /**
+   * Restart from the beginning of the range (or reverse, for
+   * `"pingpong"`) when the end is reached.
+   * Default: true
+   */
+  loop?: boolean
+  /**
+   * Playback direction.
+   * Default: "forward"
+   */
+  direction?: PlaybackDirection
+  /**
+   * Inclusive `[first, last]` time index range to play.
+   * Default: all time points
+   */
+  range?: [number, number]
+}
+
+/**
+ * Options for {@link OMEZarrNVImage.getTimeCourse}.
+ */
+export interface TimeCourseOptions {
+  /**
+   * Resolution level to sample.
+   * Default: 0 (full resolution)
+   */
+  level?: number
+  /**
+   * Inclusive `[first, last]` time index range to sample.
+   * Default: all time points
+   */
+  tRange?: [number, number]
+}
+
+/**
+ * Options for {@link OMEZarrNVImage.getValueAtWorld}.
+ */
+export interface ValueAtWorldOptions {
+  /**
+   * Resolution level to sample.
+   * Default: 0 (full resolution)
+   */
+  levelIndex?: number
+  /**
+   * Time point to sample.
+   * Default: the current time index
+   */
+  timeIndex?: number
+}
+
+/**
+ * Options for {@link OMEZarrNVImage.toNifti}.
+ */
+export interface NiftiExportOptions {
+  /**
+   * Gzip the output (a `.nii.gz` file).
+   * Default: false
+   */
+  gzip?: boolean
+  /**
+   * Export the slab buffer of this 2D slice type instead of the 3D volume.
+   * Default: the 3D volume
+   */
+  sliceType?: SlabSliceType
+}
+
+/**
+ * Display color of one label value, from NGFF `image-label` metadata.
+ */
+export interface ImageLabelColor {
+  /** The label value */
+  "label-value": number
+  /** Color as `[r, g, b, a]`, each in [0, 255] */
+  rgba?: number[]
+}
+
+/**
+ * Properties of one label value, from NGFF `image-label` metadata. Any
+ * keys besides `label-value` are allowed.
+ */
+export interface ImageLabelProperty {
+  /** The label value */
+  "label-value": number
+  [key: string]: unknown
+}
+
+/**
+ * NGFF `image-label` metadata of a label image.
+ */
+export interface ImageLabelMetadata {
+  /** Display colors by label value */
+  colors?: ImageLabelColor[]
+  /** Properties (e.g. names) by label value */
+  properties?: ImageLabelProperty[]
+  /** The image the labels belong to */
+  source?: { image?: string }
+  version?: string
+}
+
+/**
+ * Name and color of one label value, resolved from
+ * {@link ImageLabelMetadata}.
+ */
+export interface LabelInfo {
+  /** Display name, when the label has a name property */
+  name?: string
+  /** Color as `[r, g, b, a]`, when the label has a color */
+  rgba?: [number, number, number, number]
+}
+
+/**
+ * Label under a world coordinate, from {@link OMEZarrNVImage.pickLabel}.
+ */
+export interface LabelPick {
+  /** Label value at full resolution (0 is background) */
+  label: number
+  /** Voxel index [z, y, x] at resolution level 0 */
+  voxel: [number, number, number]
+  /** Display name, when the label has a name property */
+  name?: string
+  /** Color as `[r, g, b, a]`, when the label has a color */
+  rgba?: [number, number, number, number]
+  /** All `image-label` properties of the label, except `label-value` */
+  properties: Record<string, unknown>
+}
+
 /**
  * Information about a channel (component) dimension in the image.
  */
@@ -414,6 +773,22 @@ export interface ChannelInfo {
   components: number
 }
 
+/**
+ * Check whether an image should be rendered as a multi-channel composite
+ * by default.
+ *
+ * Images with a `"c"` dimension that cannot be displayed as RGB/RGBA
+ * (any component count other than 3 or 4) are composited by default.
+ *
+ * @param ngffImage - The NgffImage to inspect
+ * @returns `true` if the image has a `"c"` dimension that is not RGB/RGBA
+ */
+export function isCompositeImage(ngffImage: NgffImage): boolean {
+  const info = getChannelInfo(ngffImage)
+  if (!info) return false
+  return !isRGBImage(ngffImage)
+}
+
 /**
  * Detect whether an NgffImage has a channel (`"c"`) dimension.
  *
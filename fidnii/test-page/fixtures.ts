@@ -0,0 +1,240 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+/**
+ * Synthetic in-memory OME-Zarr fixtures for the Playwright specs.
+ *
+ * Builds an OME-Zarr 0.5 store in a `Map`, with a nearest-neighbour
+ * resolution pyramid (level `k` keeps every `2^k`-th voxel, so a voxel
+ * has the same value and world position at every level it exists in) and
+ * optional `labels/` groups with `image-label` metadata.
+ */
+
+import type {
+  ImageLabelMetadata,
+  OMEZarrNVImageOptions,
+} from "@fideus-labs/fidnii"
+import { OMEZarrNVImage } from "@fideus-labs/fidnii"
+import type { Multiscales } from "@fideus-labs/ngff-zarr"
+import { fromNgffZarr } from "@fideus-labs/ngff-zarr/browser"
+import type { Niivue } from "@niivue/niivue"
+import { unzipSync } from "fflate"
+import type { Readable } from "zarrita"
+import * as zarr from "zarrita"
+
+type FixtureDtype = "uint8" | "uint16" | "uint32" | "float32"
+
+/** One image of a fixture store: the root image or a label image. */
+export interface TestImageOptions {
+  /** Array shape, in the order of `dims` */
+  shape: number[]
+  /** Axis names (default: `["z", "y", "x"]`) */
+  dims?: string[]
+  /** Chunk shape (default: 8 along each spatial axis, 1 otherwise) */
+  chunks?: number[]
+  /** Data type (default: `"uint16"`) */
+  dtype?: FixtureDtype
+  /** Number of resolution levels (default: 1) */
+  levels?: number
+  /** Voxel size of level 0 by axis name (default: 1) */
+  scale?: Record<string, number>
+  /** Origin of level 0 by axis name (default: 0) */
+  translation?: Record<string, number>
+  /** Value of the voxel at an index of level 0, in the order of `dims` */
+  value: (index: number[]) => number
+  /** `image-label` metadata (stored on the multiscales group) */
+  imageLabel?: ImageLabelMetadata
+  /** OMERO metadata (stored on the multiscales group) */
+  omero?: unknown
+}
+
+/** A fixture store: the root image plus named `labels/` images. */
+export interface TestMultiscalesOptions extends TestImageOptions {
+  /** Label images, stored as `labels/<name>` */
+  labels?: Record<string, TestImageOptions>
+}
+
+const SPATIAL = ["x", "y", "z"]
+
+async function writeImage(
+  location: zarr.Location<Map<string, Uint8Array>>,
+  image: TestImageOptions,
+): Promise<void> {
+  const dims = image.dims ?? ["z", "y", "x"]
+  const levels = image.levels ?? 1
+  const chunks = image.chunks ?? dims.map((d) => (SPATIAL.includes(d) ? 8 : 1))
+  const dtype = image.dtype ?? "uint16"
+
+  const datasets = []
+  for (let level = 0; level < levels; level++) {
+    const factor = 2 ** level
+    const shape = image.shape.map((n, i) =>
+      SPATIAL.includes(dims[i]) ? Math.ceil(n / factor) : n,
+    )
+    const array = await zarr.create(location.resolve(String(level)), {
+      shape,
+      chunk_shape: chunks.map((c, i) => Math.min(c, shape[i])),
+      data_type: dtype,
+    })
+
+    const size = shape.reduce((a, b) => a * b, 1)
+    const data = new (
+      dtype === "float32"
+        ? Float32Array
+        : dtype === "uint32"
+          ? Uint32Array
+          : dtype === "uint16"
+            ? Uint16Array
+            : Uint8Array
+    )(size)
+    const index = new Array<number>(shape.length).fill(0)
+    for (let i = 0; i < size; i++) {
+      data[i] = image.value(
+        index.map((v, axis) => (SPATIAL.includes(dims[axis]) ? v * factor : v)),
+      )
+      for (let axis = shape.length - 1; axis >= 0; axis--) {
+        if (++index[axis] < shape[axis]) break
+        index[axis] = 0
+      }
+    }
+    await zarr.set(array, null, {
+      data,
+      shape,
+      stride: shape.map((_, i) =>
+        shape.slice(i + 1).reduce((a, b) => a * b, 1),
+      ),
+    } as never)
+
+    datasets.push({
+      path: String(level),
+      coordinateTransformations: [
+        {
+          type: "scale",
+          scale: dims.map((d) =>
+            SPATIAL.includes(d) ? (image.scale?.[d] ?? 1) * factor : 1,
+          ),
+        },
+        {
+          type: "translation",
+          translation: dims.map((d) => image.translation?.[d] ?? 0),
+        },
+      ],
+    })
+  }
+
+  const ome: Record<string, unknown> = {
+    version: "0.5",
+    multiscales: [
+      {
+        axes: dims.map((name) => ({
+          name,
+          type: SPATIAL.includes(name)
+            ? "space"
+            : name === "t"
+              ? "time"
+              : "channel",
+        })),
+        datasets,
+      },
+    ],
+  }
+  if (image.imageLabel) ome["image-label"] = image.imageLabel
+  // fromNgffZarr reads OMERO metadata from the top-level attributes
+  const attributes = image.omero ? { ome, omero: image.omero } : { ome }
+  await zarr.create(location, { attributes })
+}
+
+/**
+ * Build an in-memory OME-Zarr store and open it with `fromNgffZarr()`.
+ *
+ * Label images are reachable from the returned multiscales with
+ * `image.addLabelOverlay("labels/<name>")`.
+ *
+ * @example
+ * ```ts
+ * const multiscales = await createTestMultiscales({
+ *   shape: [16, 16, 16],
+ *   levels: 2,
+ *   value: ([z, y, x]) => x + 16 * y,
+ * })
+ * ```
+ */
+export async function createTestMultiscales(
+  options: TestMultiscalesOptions,
+): Promise<Multiscales> {
+  const store = new Map<string, Uint8Array>()
+  const root = zarr.root(store)
+  await writeImage(root, options)
+
+  const labelNames = Object.keys(options.labels ?? {})
+  if (labelNames.length > 0) {
+    await zarr.create(root.resolve("labels"), {
+      attributes: { ome: { version: "0.5", labels: labelNames } },
+    })
+    for (const name of labelNames) {
+      await writeImage(
+        root.resolve(`labels/${name}`),
+        (options.labels as Record<string, TestImageOptions>)[name],
+      )
+    }
+  }
+
+  return fromNgffZarr(store as unknown as Readable)
+}
+
+/**
+ * Open an OME-Zarr zip (`.ozx`), e.g. the output of `exportRegion()`.
+ */
+export async function readOzx(bytes: Uint8Array): Promise<Multiscales> {
+  const store = new Map<string, Uint8Array>()
+  for (const [path, data] of Object.entries(unzipSync(bytes))) {
+    store.set(`/${path}`, data)
+  }
+  return fromNgffZarr(store as unknown as Readable)
+}
+
+/**
+ * Show a fixture in the test page in place of the current image: the
+ * image is added to `nv` and attached to `nv2` (the 2D slab view), like
+ * the page's own image.
+ *
+ * @param onCreate - Called with the image before it starts loading, e.g.
+ *   to listen to its loading events
+ * @returns The image, once its first `populateComplete` has fired
+ */
+export async function loadTestImage(
+  nv: Niivue,
+  nv2: Niivue,
+  options: Omit<OMEZarrNVImageOptions, "niivue" | "autoLoad">,
+  onCreate?: (image: OMEZarrNVImage) => void,
+): Promise<OMEZarrNVImage> {
+  // Detach the current image from both viewers (nv2 shows its slabs)
+  for (const volume of nv.volumes) {
+    if (volume instanceof OMEZarrNVImage) {
+      volume.detachNiivue(nv)
+      volume.detachNiivue(nv2)
+    }
+  }
+  for (const viewer of [nv, nv2]) {
+    while (viewer.volumes.length > 0) {
+      viewer.removeVolume(viewer.volumes[0])
+    }
+  }
+
+  const image = await OMEZarrNVImage.create({
+    ...options,
+    niivue: nv,
+    autoLoad: false,
+  })
+  onCreate?.(image)
+  nv.addVolume(image)
+  image.attachNiivue(nv2)
+  const loaded = new Promise<void>((resolve) =>
+    image.addEventListener("populateComplete", () => resolve(), {
+      once: true,
+    }),
+  )
+  void image.populateVolume()
+  await loaded
+  return image
+}
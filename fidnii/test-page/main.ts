@@ -5,23 +5,37 @@ import {
   applyOrientationToAffine,
   BufferManager,
   buildSelection,
+  clipPlaneToNiivue,
+  compositeToRGBA,
   computeChannelMinMax,
   createAffineFromNgffImage,
   createAffineFromOMEZarr,
+  dimOutsideClipPlanes,
+  drawClipPlaneLines,
+  exportRegion,
   fromTiff,
   getChannelInfo,
   getChunkShape,
+  getLabelProperties,
   getOrientationInfo,
   getOrientationMapping,
   getOrientationSigns,
   getRGBNiftiDataType,
+  getVisibleChunks,
   getVolumeShape,
+  hasObliqueClipPlanes,
+  isCompositeImage,
   isRGBImage,
+  maskOutsideClipPlanes,
   NiftiDataType,
   needsRGBNormalization,
+  niivueToClipPlane,
   normalizedToWorld,
   normalizeToUint8,
   OMEZarrNVImage,
+  parseHexColor,
+  parseImageLabelMetadata,
+  RegionCoalescer,
   TiffStore,
   worldToNormalized,
 } from "@fideus-labs/fidnii"
@@ -33,6 +47,8 @@ import {
 } from "@fideus-labs/ngff-zarr/browser"
 import { DRAG_MODE, Niivue, SLICE_TYPE } from "@niivue/niivue"
 
+import { createTestMultiscales, loadTestImage, readOzx } from "./fixtures.js"
+
 declare global {
   interface Window {
     image: OMEZarrNVImage
@@ -46,14 +62,28 @@ declare global {
       getRGBNiftiDataType: typeof getRGBNiftiDataType
       normalizeToUint8: typeof normalizeToUint8
       computeChannelMinMax: typeof computeChannelMinMax
+      compositeToRGBA: typeof compositeToRGBA
+      parseHexColor: typeof parseHexColor
+      isCompositeImage: typeof isCompositeImage
       getVolumeShape: typeof getVolumeShape
       getChunkShape: typeof getChunkShape
       buildSelection: typeof buildSelection
+      RegionCoalescer: typeof RegionCoalescer
+      getVisibleChunks: typeof getVisibleChunks
+      hasObliqueClipPlanes: typeof hasObliqueClipPlanes
+      dimOutsideClipPlanes: typeof dimOutsideClipPlanes
+      drawClipPlaneLines: typeof drawClipPlaneLines
+      maskOutsideClipPlanes: typeof maskOutsideClipPlanes
+      parseImageLabelMetadata: typeof parseImageLabelMetadata
+      getLabelProperties: typeof getLabelProperties
+      clipPlaneToNiivue: typeof clipPlaneToNiivue
+      niivueToClipPlane: typeof niivueToClipPlane
       normalizedToWorld: typeof normalizedToWorld
       worldToNormalized: typeof worldToNormalized
       BufferManager: typeof BufferManager
       NiftiDataType: typeof NiftiDataType
       fromTiff: typeof fromTiff
+      exportRegion: typeof exportRegion
       TiffStore: typeof TiffStore
       buildTiff: typeof buildTiff
       makeImageTags: typeof makeImageTags
@@ -63,6 +93,9 @@ declare global {
       applyOrientationToAffine: typeof applyOrientationToAffine
       createAffineFromNgffImage: typeof createAffineFromNgffImage
       createAffineFromOMEZarr: typeof createAffineFromOMEZarr
+      createTestMultiscales: typeof createTestMultiscales
+      loadTestImage: typeof loadTestImage
+      readOzx: typeof readOzx
     }
   }
 }
@@ -76,14 +109,28 @@ window.fidnii = {
   getRGBNiftiDataType,
   normalizeToUint8,
   computeChannelMinMax,
+  compositeToRGBA,
+  parseHexColor,
+  isCompositeImage,
   getVolumeShape,
   getChunkShape,
   buildSelection,
+  RegionCoalescer,
+  getVisibleChunks,
+  hasObliqueClipPlanes,
+  dimOutsideClipPlanes,
+  drawClipPlaneLines,
+  maskOutsideClipPlanes,
+  parseImageLabelMetadata,
+  getLabelProperties,
+  clipPlaneToNiivue,
+  niivueToClipPlane,
   normalizedToWorld,
   worldToNormalized,
   BufferManager,
   NiftiDataType,
   fromTiff,
+  exportRegion,
   TiffStore,
   buildTiff,
   makeImageTags,
@@ -93,6 +140,9 @@ window.fidnii = {
   applyOrientationToAffine,
   createAffineFromNgffImage,
   createAffineFromOMEZarr,
+  createTestMultiscales,
+  loadTestImage,
+  readOzx,
 }
 
 const DATA_URL =
@@ -0,0 +1,167 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import { expect, test } from "@playwright/test"
+
+test.describe("Channel Display Settings", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+    // Two channels with values 0-99; both OMERO windows end at 10, so
+    // loaded data always exceeds them
+    await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const multiscales = await createTestMultiscales({
+        shape: [2, 8, 8, 8],
+        dims: ["c", "z", "y", "x"],
+        value: ([c, z, y, x]: number[]) => (c * 7 + z * 8 + y + x) % 100,
+        omero: {
+          channels: [0, 1].map((c) => ({
+            color: c === 0 ? "FF0000" : "00FF00",
+            label: `channel ${c}`,
+            active: true,
+            window: { min: 0, max: 99, start: 0, end: 10 },
+          })),
+        },
+      })
+      ;(window as any).image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales, channel: 0 },
+      )
+    })
+  })
+
+  test("setChannelWindow applies the window and emits omeroChange", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(() => {
+      const image = (window as any).image
+      const events: any[] = []
+      image.addEventListener("omeroChange", (e: any) => events.push(e.detail))
+      image.setChannelWindow(0, { start: 2, end: 5 })
+      return {
+        window: image.getOmero().channels[0].window,
+        calMin: image.cal_min,
+        calMax: image.cal_max,
+        events: events.map((d) => ({
+          channelIndex: d.channelIndex,
+          change: d.change,
+        })),
+      }
+    })
+
+    expect(result.window.start).toBe(2)
+    expect(result.window.end).toBe(5)
+    expect(result.calMin).toBe(2)
+    expect(result.calMax).toBe(5)
+    expect(result.events).toEqual([{ channelIndex: 0, change: "window" }])
+  })
+
+  test("setChannelWindow rejects an empty window", async ({ page }) => {
+    const message = await page.evaluate(() => {
+      try {
+        ;(window as any).image.setChannelWindow(0, { start: 5, end: 5 })
+        return null
+      } catch (err) {
+        return (err as Error).message
+      }
+    })
+    expect(message).toContain("Invalid channel window")
+  })
+
+  test("an edited window only stops widening of its own channel", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(() => {
+      const image = (window as any).image
+      // Editing channel 1 leaves the active channel 0 widened to the data
+      image.setChannelWindow(1, { start: 0, end: 10 })
+      image.setActiveChannel(0)
+      const widenedMax = image.cal_max
+      // Editing channel 0 itself keeps its window as set
+      image.setChannelWindow(0, { start: 0, end: 10 })
+      image.setActiveChannel(0)
+      return { widenedMax, editedMax: image.cal_max }
+    })
+
+    expect(result.widenedMax).toBeGreaterThan(10)
+    expect(result.editedMax).toBe(10)
+  })
+
+  test("setChannelColor and setChannelVisible update OMERO", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(() => {
+      const image = (window as any).image
+      const events: any[] = []
+      image.addEventListener("omeroChange", (e: any) =>
+        events.push({
+          channelIndex: e.detail.channelIndex,
+          change: e.detail.change,
+        }),
+      )
+      image.setChannelColor(1, "#ff00ff")
+      image.setChannelVisible(1, false)
+      let colorError: string | null = null
+      try {
+        image.setChannelColor(1, "purple")
+      } catch (err) {
+        colorError = (err as Error).message
+      }
+      let indexError: string | null = null
+      try {
+        image.setChannelVisible(5, false)
+      } catch (err) {
+        indexError = (err as Error).message
+      }
+      const channel = image.getOmero().channels[1]
+      return {
+        color: channel.color,
+        active: channel.active,
+        events,
+        colorError,
+        indexError,
+        fileColor: image.multiscales.metadata.omero.channels[1].color,
+      }
+    })
+
+    expect(result.color).toBe("FF00FF")
+    expect(result.active).toBe(false)
+    expect(result.events).toEqual([
+      { channelIndex: 1, change: "color" },
+      { channelIndex: 1, change: "visible" },
+    ])
+    expect(result.colorError).toContain("Invalid channel color")
+    expect(result.indexError).toContain("Invalid channel index")
+    // The multiscales metadata passed to create() is never modified
+    expect(result.fileColor).toBe("00FF00")
+  })
+
+  test("setChannel(null) rejects channels that need compositing", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const { loadTestImage } = (window as any).fidnii
+      const image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        {
+          multiscales: (window as any).image.multiscales,
+          channel: 0,
+          composite: false,
+        },
+      )
+      const message = await image.setChannel(null).then(
+        () => null,
+        (err: Error) => err.message,
+      )
+      return { message, channel: image.getChannel() }
+    })
+
+    expect(result.message).toContain("Unsupported multi-component image")
+    expect(result.channel).toBe(0)
+  })
+})
@@ -457,6 +457,81 @@ test.describe("Clip Planes", () => {
     expect(result.normal[2]).toBeCloseTo(0, 3)
   })
 
+  test("setClipBox builds six planes clamped to the volume", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const bounds = image.getVolumeBounds()
+      const mid = [0, 1, 2].map((i) => (bounds.min[i] + bounds.max[i]) / 2)
+
+      const boxChanged = new Promise<any>((resolve) => {
+        image.addEventListener("clipBoxChange", (e: any) => resolve(e.detail), {
+          once: true,
+        })
+      })
+      // Max corner beyond the volume and z swapped
+      image.setClipBox({
+        min: [mid[0], mid[1], bounds.max[2] + 100],
+        max: [bounds.max[0] + 100, bounds.max[1], mid[2]],
+      })
+      const detail = await boxChanged
+      const planes = image.getClipPlanes()
+      const box = image.getClipBox()
+
+      image.clearClipPlanes()
+      const clearedBox = image.getClipBox()
+
+      return { bounds, mid, planes, box, detail, clearedBox }
+    })
+
+    expect(result.planes).toHaveLength(6)
+    expect(result.box.min).toEqual([
+      result.mid[0],
+      result.mid[1],
+      result.mid[2],
+    ])
+    expect(result.box.max).toEqual(result.bounds.max)
+    expect(result.detail.clipBox).toEqual(result.box)
+    // The x-min plane keeps the +X side
+    expect(result.planes[0].point[0]).toBeCloseTo(result.mid[0], 6)
+    expect(result.planes[0].normal).toEqual([1, 0, 0])
+    expect(result.planes[1].normal).toEqual([-1, 0, 0])
+    expect(result.clearedBox).toBeNull()
+  })
+
+  test("animateClipPlane sweeps a plane along its normal", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const bounds = image.getVolumeBounds()
+      const center = [0, 1, 2].map((i) => (bounds.min[i] + bounds.max[i]) / 2)
+      const quarter = (bounds.max[0] - bounds.min[0]) / 4
+
+      image.setClipPlanes([{ point: center, normal: [1, 0, 0] }])
+      let changes = 0
+      image.addEventListener("clipPlanesChange", () => changes++)
+
+      await image.animateClipPlane(0, {
+        from: -quarter,
+        to: quarter,
+        durationMs: 100,
+        easing: "linear",
+      })
+      const changesAfterSweep = changes
+      const plane = image.getClipPlanes()[0]
+      return { center, quarter, plane, changesAfterSweep }
+    })
+
+    expect(result.plane.point[0]).toBeCloseTo(
+      result.center[0] + result.quarter,
+      6,
+    )
+    expect(result.plane.normal).toEqual([1, 0, 0])
+    // The debounced update of setClipPlanes was replaced by a single
+    // decision at the end of the sweep
+    expect(result.changesAfterSweep).toBe(1)
+  })
+
   test("UI shows clip plane count", async ({ page }) => {
     const countEl = page.locator("#clip-plane-count")
 
@@ -483,3 +558,333 @@ test.describe("Clip Planes", () => {
     await expect(countEl).toHaveText("0")
   })
 })
+
+test.describe("Clip Planes — NiiVue conversion", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+  })
+
+  test("niivueToClipPlane inverts clipPlaneToNiivue", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const bounds = {
+        min: [-10, 0, 5] as [number, number, number],
+        max: [30, 20, 45] as [number, number, number],
+      }
+      const s = 1 / Math.sqrt(3)
+      const plane = {
+        point: [5, 12, 20] as [number, number, number],
+        normal: [s, -s, s] as [number, number, number],
+      }
+      const niivue = window.fidnii.clipPlaneToNiivue(plane, bounds)
+      const restored = window.fidnii.niivueToClipPlane(niivue, bounds)
+      // The restored point may slide within the plane, so compare the
+      // signed distance of the original point to the restored plane.
+      const distance =
+        restored.normal[0] * (plane.point[0] - restored.point[0]) +
+        restored.normal[1] * (plane.point[1] - restored.point[1]) +
+        restored.normal[2] * (plane.point[2] - restored.point[2])
+      return { normal: restored.normal, distance }
+    })
+
+    const s = 1 / Math.sqrt(3)
+    expect(result.normal[0]).toBeCloseTo(s, 6)
+    expect(result.normal[1]).toBeCloseTo(-s, 6)
+    expect(result.normal[2]).toBeCloseTo(s, 6)
+    expect(result.distance).toBeCloseTo(0, 6)
+  })
+})
+
+test.describe("Clip Planes — chunk culling", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+  })
+
+  test("hasObliqueClipPlanes ignores axis-aligned planes", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const s = 1 / Math.sqrt(2)
+      return [
+        window.fidnii.hasObliqueClipPlanes([]),
+        window.fidnii.hasObliqueClipPlanes([
+          { point: [0, 0, 0], normal: [0, -1, 0] },
+        ]),
+        window.fidnii.hasObliqueClipPlanes([
+          { point: [0, 0, 0], normal: [s, s, 0] },
+        ]),
+      ]
+    })
+
+    expect(result).toEqual([false, false, true])
+  })
+
+  test("getVisibleChunks skips chunks behind an oblique plane", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(() => {
+      const img = {
+        dims: ["z", "y", "x"],
+        data: { shape: [1, 64, 64], chunks: [1, 16, 16] },
+        scale: { z: 1, y: 1, x: 1 },
+        translation: { z: 0, y: 0, x: 0 },
+      }
+      const s = 1 / Math.sqrt(2)
+      // Keep the side of the diagonal x + y >= 64
+      const plane = {
+        point: [32, 32, 0] as [number, number, number],
+        normal: [s, s, 0] as [number, number, number],
+      }
+      const region = {
+        start: [0, 0, 0] as [number, number, number],
+        end: [1, 64, 64] as [number, number, number],
+      }
+      const chunks = window.fidnii.getVisibleChunks(region, [plane], img as any)
+      return chunks.map((c) => c.start)
+    })
+
+    // The three chunks fully below the diagonal are culled
+    expect(result).toHaveLength(13)
+    expect(result).not.toContainEqual([0, 0, 0])
+    expect(result).toContainEqual([0, 48, 48])
+    expect(result).toContainEqual([0, 16, 32])
+  })
+})
+
+test.describe("Clip Planes — CPU masking", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+  })
+
+  test("zeroes voxels outside any number of planes", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const img = {
+        dims: ["z", "y", "x"],
+        data: { shape: [1, 4, 4], chunks: [1, 4, 4] },
+        scale: { z: 1, y: 1, x: 1 },
+        translation: { z: 0, y: 0, x: 0 },
+      }
+      const data = new Uint8Array(16).fill(7)
+      // Seven planes: keep x in [1, 2] and y in [1, 2]; the rest are no-ops
+      const planes = [
+        { point: [1, 0, 0], normal: [1, 0, 0] },
+        { point: [2, 0, 0], normal: [-1, 0, 0] },
+        { point: [0, 1, 0], normal: [0, 1, 0] },
+        { point: [0, 2, 0], normal: [0, -1, 0] },
+        { point: [0, 0, -1], normal: [0, 0, 1] },
+        { point: [0, 0, 1], normal: [0, 0, -1] },
+        { point: [-5, -5, 0], normal: [1, 1, 0] },
+      ] as any
+      window.fidnii.maskOutsideClipPlanes(
+        data,
+        [1, 4, 4],
+        1,
+        [0, 0, 0],
+        planes,
+        img as any,
+      )
+      // One array per row (y)
+      return [0, 1, 2, 3].map((y) => Array.from(data.slice(y * 4, y * 4 + 4)))
+    })
+
+    expect(result).toEqual([
+      [0, 0, 0, 0],
+      [0, 7, 7, 0],
+      [0, 7, 7, 0],
+      [0, 0, 0, 0],
+    ])
+  })
+
+  test("masks every component of an RGBA voxel", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const img = {
+        dims: ["y", "x", "c"],
+        data: { shape: [1, 2, 4], chunks: [1, 2, 4] },
+        scale: { y: 1, x: 1, c: 1 },
+        translation: { y: 0, x: 0, c: 0 },
+      }
+      const data = new Uint8Array(8).fill(255)
+      window.fidnii.maskOutsideClipPlanes(
+        data,
+        [1, 1, 2],
+        4,
+        [0, 0, 0],
+        [{ point: [0.5, 0, 0], normal: [1, 0, 0] }],
+        img as any,
+      )
+      return Array.from(data)
+    })
+
+    expect(result).toEqual([0, 0, 0, 0, 255, 255, 255, 255])
+  })
+})
+
+test.describe("Clip Planes — slab display", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+  })
+
+  const img = {
+    dims: ["z", "y", "x"],
+    data: { shape: [1, 1, 4], chunks: [1, 1, 4] },
+    scale: { z: 1, y: 1, x: 1 },
+    translation: { z: 0, y: 0, x: 0 },
+  }
+
+  test("dims clipped voxels toward the floor", async ({ page }) => {
+    const result = await page.evaluate((img) => {
+      const data = new Float32Array([30, 30, 30, 30])
+      // Keep x >= 2
+      window.fidnii.dimOutsideClipPlanes(
+        data,
+        [1, 1, 4],
+        1,
+        [0, 0, 0],
+        [{ point: [2, 0, 0], normal: [1, 0, 0] }],
+        img as any,
+        0.5,
+        10,
+      )
+      return Array.from(data)
+    }, img)
+
+    expect(result).toEqual([20, 20, 30, 30])
+  })
+
+  test("draws one voxel wide plane lines", async ({ page }) => {
+    const result = await page.evaluate((img) => {
+      const data = new Uint8Array(4)
+      window.fidnii.drawClipPlaneLines(
+        data,
+        [1, 1, 4],
+        1,
+        [0, 0, 0],
+        [{ point: [2, 0, 0], normal: [-1, 0, 0] }],
+        img as any,
+        255,
+      )
+      return Array.from(data)
+    }, img)
+
+    expect(result).toEqual([0, 0, 255, 0])
+  })
+})
+
+test.describe("Clip Planes — culled fetches", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+  })
+
+  test("RegionCoalescer.fetchChunks skips culled chunks", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const { createTestMultiscales, getVisibleChunks, RegionCoalescer } = (
+        window as any
+      ).fidnii
+      // 16 x 32 x 32 voxels in 8³ chunks, every voxel distinct
+      const multiscales = await createTestMultiscales({
+        shape: [16, 32, 32],
+        value: ([z, y, x]: number[]) => x + 32 * y + 1024 * z,
+      })
+      const ngffImage = multiscales.images[0]
+      const region = {
+        start: [0, 0, 0] as [number, number, number],
+        end: [16, 32, 32] as [number, number, number],
+      }
+      const s = 1 / Math.sqrt(2)
+      // Keep the side of the diagonal x + y >= 32
+      const plane = {
+        point: [16, 16, 8] as [number, number, number],
+        normal: [s, s, 0] as [number, number, number],
+      }
+      const chunks = getVisibleChunks(region, [plane], ngffImage)
+
+      const culled = new RegionCoalescer()
+      const requested: string[] = []
+      const fetchRegion = culled.fetchRegion.bind(culled)
+      culled.fetchRegion = (
+        image: any,
+        level: number,
+        r: any,
+        ...rest: any
+      ) => {
+        requested.push(`${r.start}-${r.end}`)
+        return fetchRegion(image, level, r, ...rest)
+      }
+      const partial = await culled.fetchChunks(ngffImage, 0, region, chunks)
+      const full = await new RegionCoalescer().fetchRegion(ngffImage, 0, region)
+
+      // Compare the bytes of every voxel of the kept chunks
+      const bytesPerVoxel = full.data.BYTES_PER_ELEMENT
+      const bytesOf = (data: any) =>
+        new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+      const partialBytes = bytesOf(partial.data)
+      const fullBytes = bytesOf(full.data)
+      let mismatches = 0
+      let keptVoxels = 0
+      let nonZeroCulled = 0
+      const kept = (z: number, y: number, x: number) =>
+        chunks.some(
+          (c: any) =>
+            z >= c.start[0] &&
+            z < c.end[0] &&
+            y >= c.start[1] &&
+            y < c.end[1] &&
+            x >= c.start[2] &&
+            x < c.end[2],
+        )
+      for (let z = 0; z < 16; z++) {
+        for (let y = 0; y < 32; y++) {
+          for (let x = 0; x < 32; x++) {
+            const i = x + 32 * y + 1024 * z
+            if (!kept(z, y, x)) {
+              if (partial.data[i] !== 0) nonZeroCulled++
+              continue
+            }
+            keptVoxels++
+            for (let b = 0; b < bytesPerVoxel; b++) {
+              const offset = i * bytesPerVoxel + b
+              if (partialBytes[offset] !== fullBytes[offset]) mismatches++
+            }
+          }
+        }
+      }
+
+      return {
+        chunkCount: chunks.length,
+        requested: requested.sort(),
+        expected: chunks.map((c: any) => `${c.start}-${c.end}`).sort(),
+        shapesEqual: partial.shape.join() === full.shape.join(),
+        keptVoxels,
+        mismatches,
+        nonZeroCulled,
+      }
+    })
+
+    // 2 z-chunks x 3 chunks fully below the diagonal are culled
+    expect(result.chunkCount).toBe(2 * 16 - 2 * 3)
+    expect(result.requested).toEqual(result.expected)
+    expect(result.requested).not.toContain("0,0,0-8,8,8")
+    expect(result.shapesEqual).toBe(true)
+    expect(result.keptVoxels).toBe(result.chunkCount * 512)
+    expect(result.mismatches).toBe(0)
+    expect(result.nonZeroCulled).toBe(0)
+  })
+
+  test("BufferManager only warns above its pixel limit", async ({ page }) => {
+    const warnings = await page.evaluate(() => {
+      const { BufferManager } = (window as any).fidnii
+      const messages: string[] = []
+      const warn = console.warn
+      console.warn = (message: string) => messages.push(message)
+      try {
+        const bm = new BufferManager(1000, "uint8")
+        // A culled load: dense box within the limit it passes
+        bm.resize([16, 16, 16], 1, 4096)
+        const culled = messages.length
+        bm.resize([16, 16, 16])
+        return { culled, dense: messages.length - culled }
+      } finally {
+        console.warn = warn
+      }
+    })
+
+    expect(warnings).toEqual({ culled: 0, dense: 1 })
+  })
+})
@@ -0,0 +1,159 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import { expect, test } from "@playwright/test"
+
+test.describe("Composite — isCompositeImage", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+  })
+
+  test("returns true for 2-channel image", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const img = {
+        dims: ["c", "z", "y", "x"],
+        data: { shape: [2, 32, 64, 64], chunks: [1, 32, 64, 64] },
+        scale: { c: 1, z: 1, y: 1, x: 1 },
+        translation: { c: 0, z: 0, y: 0, x: 0 },
+      }
+      return window.fidnii.isCompositeImage(img as any)
+    })
+
+    expect(result).toBe(true)
+  })
+
+  test("returns true for 7-channel image", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const img = {
+        dims: ["c", "y", "x"],
+        data: { shape: [7, 512, 512], chunks: [1, 256, 256] },
+        scale: { c: 1, y: 1, x: 1 },
+        translation: { c: 0, y: 0, x: 0 },
+      }
+      return window.fidnii.isCompositeImage(img as any)
+    })
+
+    expect(result).toBe(true)
+  })
+
+  test("returns false for RGB and scalar images", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const rgb = {
+        dims: ["y", "x", "c"],
+        data: { shape: [480, 640, 3], chunks: [480, 640, 3] },
+        scale: { y: 1, x: 1, c: 1 },
+        translation: { y: 0, x: 0, c: 0 },
+      }
+      const scalar = {
+        dims: ["z", "y", "x"],
+        data: { shape: [96, 96, 96], chunks: [48, 48, 48] },
+        scale: { z: 1, y: 1, x: 1 },
+        translation: { z: 0, y: 0, x: 0 },
+      }
+      return [
+        window.fidnii.isCompositeImage(rgb as any),
+        window.fidnii.isCompositeImage(scalar as any),
+      ]
+    })
+
+    expect(result).toEqual([false, false])
+  })
+})
+
+test.describe("Composite — parseHexColor", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+  })
+
+  test("parses colors with and without leading #", async ({ page }) => {
+    const result = await page.evaluate(() => [
+      window.fidnii.parseHexColor("FF0080"),
+      window.fidnii.parseHexColor("#00ff00"),
+    ])
+
+    expect(result).toEqual([
+      [255, 0, 128],
+      [0, 255, 0],
+    ])
+  })
+
+  test("falls back to white for malformed colors", async ({ page }) => {
+    const result = await page.evaluate(() => window.fidnii.parseHexColor("red"))
+
+    expect(result).toEqual([255, 255, 255])
+  })
+})
+
+test.describe("Composite — compositeToRGBA", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+  })
+
+  test("tints and sums channels additively", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const src = new Uint16Array([1000, 0, 0, 500])
+      const out = window.fidnii.compositeToRGBA(src, 2, [
+        { window: { start: 0, end: 1000 }, color: [0, 255, 0], active: true },
+        {
+          window: { start: 0, end: 1000 },
+          color: [255, 0, 255],
+          active: true,
+        },
+      ])
+      return Array.from(out)
+    })
+
+    // Voxel 0: channel 0 saturated green
+    expect(result.slice(0, 4)).toEqual([0, 255, 0, 255])
+    // Voxel 1: channel 1 at half intensity magenta
+    expect(result.slice(4, 8)).toEqual([128, 0, 128, 128])
+  })
+
+  test("saturates overlapping channels at 255", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const src = new Float32Array([1, 1, 1])
+      const channel = {
+        window: { start: 0, end: 1 },
+        color: [200, 100, 0] as [number, number, number],
+        active: true,
+      }
+      const out = window.fidnii.compositeToRGBA(src, 3, [
+        channel,
+        channel,
+        channel,
+      ])
+      return Array.from(out)
+    })
+
+    expect(result).toEqual([255, 255, 0, 255])
+  })
+
+  test("skips inactive channels", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const src = new Uint8Array([255, 255, 255, 255, 255])
+      const channels = Array.from({ length: 5 }, (_, c) => ({
+        window: { start: 0, end: 255 },
+        color: [255, 255, 255] as [number, number, number],
+        active: c === 4,
+      }))
+      channels[4].color = [0, 0, 255]
+      const out = window.fidnii.compositeToRGBA(src, 5, channels)
+      return Array.from(out)
+    })
+
+    expect(result).toEqual([0, 0, 255, 255])
+  })
+
+  test("leaves voxels without signal transparent", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const src = new Int16Array([-10, 5])
+      const out = window.fidnii.compositeToRGBA(src, 2, [
+        { window: { start: 0, end: 100 }, color: [255, 0, 0], active: true },
+        { window: { start: 5, end: 100 }, color: [0, 255, 0], active: true },
+      ])
+      return Array.from(out)
+    })
+
+    expect(result).toEqual([0, 0, 0, 0])
+  })
+})
@@ -283,4 +283,73 @@ test.describe("Coordinate System", () => {
     expect(displayedX?.[0]).toBeCloseTo(result.imageBounds.min[0], 0)
     expect(displayedX?.[1]).toBeCloseTo(result.imageBounds.max[0], 0)
   })
+
+  test("getValueAtWorld samples the full-resolution voxel", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const { min, max } = image.getVolumeBounds()
+      const center = [0, 1, 2].map((i) => (min[i] + max[i]) / 2)
+      const outside = max.map((v: number) => v + 1000)
+      return {
+        inside: await image.getValueAtWorld(center),
+        coarse: await image.getValueAtWorld(center, {
+          levelIndex: image.getNumLevels() - 1,
+        }),
+        outside: await image.getValueAtWorld(outside),
+      }
+    })
+
+    expect(typeof result.inside).toBe("number")
+    expect(typeof result.coarse).toBe("number")
+    expect(result.outside).toBeNull()
+  })
+
+  test("getValueAtWorld rejects an invalid level", async ({ page }) => {
+    const message = await page.evaluate(async () => {
+      const image = (window as any).image
+      return image.getValueAtWorld([0, 0, 0], { levelIndex: 99 }).then(
+        () => null,
+        (err: Error) => err.message,
+      )
+    })
+
+    expect(message).toContain("Invalid resolution level")
+  })
+
+  test("sampleLine returns a profile through the volume", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const { min, max } = image.getVolumeBounds()
+      const center = [0, 1, 2].map((i) => (min[i] + max[i]) / 2)
+      const p0 = [min[0], center[1], center[2]]
+      const p1 = [max[0], center[1], center[2]]
+      const profile = await image.sampleLine(p0, p1, {
+        samples: 16,
+        interpolation: "trilinear",
+      })
+      const nearest = await image.sampleLine(center, p1, {
+        samples: 16,
+        levelIndex: profile.levelIndex,
+      })
+      return {
+        count: profile.positions.length,
+        components: profile.components,
+        finite: Array.from(profile.values).every((v) => Number.isFinite(v)),
+        lastDistance: profile.distances[15],
+        length: max[0] - min[0],
+        endValue: nearest.values[0],
+        probed: await image.getValueAtWorld(center, {
+          levelIndex: profile.levelIndex,
+        }),
+      }
+    })
+
+    expect(result.count).toBe(16)
+    expect(result.components).toBe(1)
+    expect(result.finite).toBe(true)
+    expect(result.lastDistance).toBeCloseTo(result.length, 6)
+    expect(result.endValue).toBe(result.probed)
+  })
 })
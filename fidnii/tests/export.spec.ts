@@ -0,0 +1,390 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import { expect, test } from "@playwright/test"
+
+test.describe("Export — NIfTI", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+  })
+
+  test("toNifti writes the loaded 3D buffer", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      await image.waitForIdle()
+
+      const bytes: Uint8Array = await image.toNifti()
+      const view = new DataView(bytes.buffer, bytes.byteOffset)
+      return {
+        sizeofHdr: view.getInt32(0, true),
+        magic: String.fromCharCode(bytes[344], bytes[345], bytes[346]),
+        dims: [1, 2, 3].map((i) => view.getInt16(40 + 2 * i, true)),
+        expectedDims: image.hdr.dims.slice(1, 4),
+        voxOffset: view.getFloat32(108, true),
+        length: bytes.length,
+        imgBytes: image.img.byteLength,
+      }
+    })
+
+    expect(result.sizeofHdr).toBe(348)
+    expect(result.magic).toBe("n+1")
+    expect(result.dims).toEqual(result.expectedDims)
+    expect(result.length).toBe(result.voxOffset + result.imgBytes)
+  })
+
+  test("toNifti gzips on request", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      await image.waitForIdle()
+
+      const bytes: Uint8Array = await image.toNifti({ gzip: true })
+      return [bytes[0], bytes[1]]
+    })
+
+    expect(result).toEqual([0x1f, 0x8b])
+  })
+
+  test("toNifti exports the displayed volume while a clip reload is pending", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const multiscales = await createTestMultiscales({
+        shape: [2, 16, 16, 16],
+        dims: ["t", "z", "y", "x"],
+        value: ([t, , , x]: number[]) => 100 * t + x,
+      })
+      // CPU masking refetches the volume on every clip change
+      const image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales, maskClipPlanes: true },
+      )
+      const { min, max } = image.getVolumeBounds()
+
+      // clipPlanesChange fires once the reload has started, before it lands
+      const pending = new Promise<Promise<Uint8Array>>((resolve) => {
+        image.addEventListener(
+          "clipPlanesChange",
+          () => resolve(image.toNifti()),
+          { once: true },
+        )
+      })
+      const displayedDims = image.hdr.dims.slice(1, 4)
+      image.setClipBox({ min: [8, min[1], min[2]], max })
+      const bytes: Uint8Array = await await pending
+      await image.waitForIdle()
+
+      const view = new DataView(bytes.buffer, bytes.byteOffset)
+      return {
+        dims: [1, 2, 3].map((i) => view.getInt16(40 + 2 * i, true)),
+        displayedDims,
+      }
+    })
+
+    expect(result.dims).toEqual(result.displayedDims)
+  })
+
+  test("toNifti exports a slab buffer", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      await image.waitForIdle()
+
+      // SLICE_TYPE.AXIAL = 0 (NV2 starts in axial mode)
+      const slab = image.getSlabBufferState(0)
+      const bytes: Uint8Array = await image.toNifti({ sliceType: 0 })
+      const view = new DataView(bytes.buffer, bytes.byteOffset)
+      return {
+        dims: [1, 2, 3].map((i) => view.getInt16(40 + 2 * i, true)),
+        expectedDims: slab.nvImage.hdr.dims.slice(1, 4),
+      }
+    })
+
+    expect(result.dims).toEqual(result.expectedDims)
+  })
+
+  test("toNifti rejects a slab that was never loaded", async ({ page }) => {
+    const message = await page.evaluate(async () => {
+      const image = (window as any).image
+      // SLICE_TYPE.SAGITTAL = 2 is not created until NV2 switches
+      return image.toNifti({ sliceType: 2 }).then(
+        () => null,
+        (err: Error) => err.message,
+      )
+    })
+
+    expect(message).toContain("No slab buffer loaded")
+  })
+})
+
+test.describe("Export — NIfTI slab geometry", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+    // Anisotropic voxels, so the slab header is normalized (by 1 / 2)
+    await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const multiscales = await createTestMultiscales({
+        shape: [16, 32, 32],
+        scale: { z: 2, y: 0.5, x: 0.5 },
+        translation: { z: 30, y: 20, x: 10 },
+        value: ([z, y, x]: number[]) => x + 32 * y + 1024 * z,
+      })
+      ;(window as any).image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales, slabClipDisplay: "dim" },
+      )
+    })
+  })
+
+  test("toNifti writes a slab with physical pixDims and sform", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const bytes: Uint8Array = await image.toNifti({ sliceType: 0 })
+      const view = new DataView(bytes.buffer, bytes.byteOffset)
+      const slab = image.getSlabBufferState(0)
+
+      // Expected sform: level affine offset to the slab's first z slice
+      const a = window.fidnii.createAffineFromNgffImage(
+        image.multiscales.images[0],
+      )
+      const z0 = slab.slabStart
+      const expected = [0, 1, 2].map((row) => [
+        a[row],
+        a[4 + row],
+        a[8 + row],
+        a[12 + row] + a[8 + row] * z0,
+      ])
+      return {
+        pixDims: [1, 2, 3].map((i) => view.getFloat32(76 + 4 * i, true)),
+        sform: [0, 1, 2].map((row) =>
+          [0, 1, 2, 3].map((col) =>
+            view.getFloat32(280 + 4 * (4 * row + col), true),
+          ),
+        ),
+        sformCode: view.getInt16(254, true),
+        expected,
+        slabPixDims: Array.from(slab.nvImage.hdr.pixDims.slice(1, 4)),
+      }
+    })
+
+    expect(result.pixDims).toEqual([0.5, 0.5, 2])
+    // The rendered slab header itself stays normalized
+    expect(result.slabPixDims).toEqual([0.25, 0.25, 1])
+    expect(result.sformCode).toBe(1)
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 4; col++) {
+        expect(result.sform[row][col]).toBeCloseTo(result.expected[row][col], 4)
+      }
+    }
+  })
+
+  test("toNifti writes slab voxels without the clip display", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      // Crop to x < 12 voxels; voxels 12..15 of the slab chunk get dimmed
+      const { min, max } = image.getVolumeBounds()
+      image.setClipBox({ min, max: [10 + 0.5 * 12, max[1], max[2]] })
+      await image.waitForIdle()
+
+      const slab = image.getSlabBufferState(0)
+      const bytes: Uint8Array = await image.toNifti({ sliceType: 0 })
+      const view = new DataView(bytes.buffer, bytes.byteOffset)
+      const [nx, ny, nz] = [1, 2, 3].map((i) => view.getInt16(40 + 2 * i, true))
+      const voxOffset = view.getFloat32(108, true)
+      const exported = new Uint16Array(
+        bytes.slice(voxOffset, voxOffset + nx * ny * nz * 2).buffer,
+      )
+
+      let exportMismatches = 0
+      let dimmedInSlab = 0
+      for (let z = 0; z < nz; z++) {
+        for (let y = 0; y < ny; y++) {
+          for (let x = 0; x < nx; x++) {
+            const i = x + nx * y + nx * ny * z
+            const raw = x + 32 * y + 1024 * (z + slab.slabStart)
+            if (exported[i] !== raw) exportMismatches++
+            if (slab.nvImage.img[i] !== raw) dimmedInSlab++
+          }
+        }
+      }
+      return { nx, exportMismatches, dimmedInSlab }
+    })
+
+    expect(result.nx).toBe(16)
+    expect(result.dimmedInSlab).toBeGreaterThan(0)
+    expect(result.exportMismatches).toBe(0)
+  })
+})
+
+test.describe("Export — region", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+  })
+
+  test("exportRegion writes an OME-Zarr zip", async ({ page }) => {
+    const magic = await page.evaluate(async () => {
+      const image = (window as any).image
+      const { min, max } = image.getVolumeBounds()
+      const bytes: Uint8Array = await image.exportRegion({
+        format: "ozx",
+        levelIndex: image.getNumLevels() - 1,
+        bounds: { min, max: [max[0], max[1], (min[2] + max[2]) / 2] },
+      })
+      return String.fromCharCode(bytes[0], bytes[1])
+    })
+
+    expect(magic).toBe("PK")
+  })
+
+  test("exportRegion writes an OME-TIFF", async ({ page }) => {
+    const magic = await page.evaluate(async () => {
+      const image = (window as any).image
+      const bytes: Uint8Array = await image.exportRegion({
+        format: "ome-tiff",
+        levelIndex: image.getNumLevels() - 1,
+      })
+      return String.fromCharCode(bytes[0], bytes[1])
+    })
+
+    expect(["II", "MM"]).toContain(magic)
+  })
+
+  test("exportRegion rejects bounds outside the volume", async ({ page }) => {
+    const message = await page.evaluate(async () => {
+      const image = (window as any).image
+      const { max } = image.getVolumeBounds()
+      const outside = max.map((v: number) => v + 1000)
+      return image
+        .exportRegion({
+          format: "ozx",
+          bounds: { min: outside, max: outside.map((v: number) => v + 10) },
+        })
+        .then(
+          () => null,
+          (err: Error) => err.message,
+        )
+    })
+
+    expect(message).toContain("do not intersect the volume")
+  })
+})
+
+test.describe("Export — region round trip", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+    // Three time points; the region below spans several 8³ chunks and
+    // does not start on a chunk boundary
+    await page.evaluate(async () => {
+      const { createTestMultiscales } = (window as any).fidnii
+      ;(window as any).source = await createTestMultiscales({
+        shape: [3, 16, 32, 32],
+        dims: ["t", "z", "y", "x"],
+        scale: { z: 2, y: 0.5, x: 0.5 },
+        translation: { z: 30, y: 20, x: 10 },
+        value: ([t, z, y, x]: number[]) => x + 32 * y + 1024 * z + 100 * t,
+      })
+    })
+  })
+
+  /** Voxels [z, y, x] = [2, 2, 4] to [10, 20, 20] of t = 1 and 2 */
+  const BOUNDS = { min: [12, 21, 34], max: [20, 30, 50] }
+
+  test("exportRegion OME-Zarr zip reads back with its geometry", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async (bounds) => {
+      const { exportRegion, readOzx, RegionCoalescer } = (window as any).fidnii
+      const bytes: Uint8Array = await exportRegion((window as any).source, {
+        format: "ozx",
+        bounds,
+        timeRange: [1, 2],
+      })
+      const multiscales = await readOzx(bytes)
+      const image = multiscales.images[0]
+      const frames = []
+      for (const t of [0, 1]) {
+        const { data } = await new RegionCoalescer().fetchRegion(
+          image,
+          0,
+          { start: [0, 0, 0], end: image.data.shape.slice(1) },
+          "test",
+          t,
+        )
+        frames.push([data[0], data[data.length - 1]])
+      }
+      return {
+        version: multiscales.metadata.version,
+        dims: image.dims,
+        shape: image.data.shape,
+        scale: image.scale,
+        translation: image.translation,
+        frames,
+      }
+    }, BOUNDS)
+
+    expect(result.version).toBe("0.5")
+    expect(result.dims).toEqual(["t", "z", "y", "x"])
+    expect(result.shape).toEqual([2, 8, 18, 16])
+    expect(result.scale).toMatchObject({ z: 2, y: 0.5, x: 0.5 })
+    // Shifted by the region offset (and the first exported time point)
+    expect(result.translation).toEqual({ t: 1, z: 34, y: 21, x: 12 })
+    // First and last voxel of each frame, from the source's value function
+    expect(result.frames).toEqual([
+      [4 + 32 * 2 + 1024 * 2 + 100, 19 + 32 * 19 + 1024 * 9 + 100],
+      [4 + 32 * 2 + 1024 * 2 + 200, 19 + 32 * 19 + 1024 * 9 + 200],
+    ])
+  })
+
+  test("exportRegion OME-TIFF reads back with its geometry", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async (bounds) => {
+      const { exportRegion, fromTiff, RegionCoalescer } = (window as any).fidnii
+      const bytes: Uint8Array = await exportRegion((window as any).source, {
+        format: "ome-tiff",
+        bounds,
+        timeRange: [1, 2],
+      })
+      const multiscales = await fromTiff(bytes.slice().buffer)
+      const image = multiscales.images[0]
+      const { data } = await new RegionCoalescer().fetchRegion(
+        image,
+        0,
+        { start: [0, 0, 0], end: image.data.shape.slice(1) },
+        "test",
+        1,
+      )
+      return {
+        dims: image.dims,
+        shape: image.data.shape,
+        scale: image.scale,
+        corners: [data[0], data[data.length - 1]],
+      }
+    }, BOUNDS)
+
+    expect(result.dims).toEqual(["t", "z", "y", "x"])
+    expect(result.shape).toEqual([2, 8, 18, 16])
+    expect(result.scale).toMatchObject({ z: 2, y: 0.5, x: 0.5 })
+    expect(result.corners).toEqual([
+      4 + 32 * 2 + 1024 * 2 + 200,
+      19 + 32 * 19 + 1024 * 9 + 200,
+    ])
+  })
+})
@@ -0,0 +1,175 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import type { Page } from "@playwright/test"
+import { expect, test } from "@playwright/test"
+
+/**
+ * Geometry of the buffers of the image and its first overlay: spatial
+ * dims, affine, time index and resolution level, plus the overlay label
+ * of the first voxel.
+ */
+async function overlayState(page: Page): Promise<any> {
+  return page.evaluate(() => {
+    const image = (window as any).image
+    const [overlay] = image.getLabelOverlays()
+    const geometry = (volume: any) => ({
+      dims: volume.hdr.dims.slice(1, 4),
+      affine: volume.hdr.affine,
+      timeIndex: volume.timeIndex,
+      levelIndex: volume.getCurrentLevelIndex(),
+    })
+    return {
+      image: geometry(image),
+      overlay: geometry(overlay),
+      firstLabel: overlay.img[0],
+    }
+  })
+}
+
+test.describe("Label Overlays", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+    // Four time points of a 16×32×32 image with a `labels/nuclei` group of
+    // the same geometry. Label values are 1 + t (x < 16) or 11 + t.
+    await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const dims = ["t", "z", "y", "x"]
+      const multiscales = await createTestMultiscales({
+        shape: [4, 16, 32, 32],
+        dims,
+        levels: 2,
+        value: ([t, , , x]: number[]) => 1000 * t + x,
+        labels: {
+          nuclei: {
+            shape: [4, 16, 32, 32],
+            dims,
+            levels: 2,
+            dtype: "uint8",
+            value: ([t, , , x]: number[]) => 1 + t + (x < 16 ? 0 : 10),
+            imageLabel: {
+              properties: [{ "label-value": 11, name: "nucleus" }],
+            },
+          },
+        },
+      })
+      ;(window as any).image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales, timePrefetchCount: 0 },
+      )
+    })
+  })
+
+  test("addLabelOverlay loads a synchronized overlay volume", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const nv = (window as any).nv
+      const overlay = await image.addLabelOverlay("labels/nuclei")
+      const loaded = {
+        isLabelImage: overlay.isLabelImage,
+        labelName: overlay.labelInfo.get(11)?.name,
+        overlays: image.getLabelOverlays().length,
+        volumeIndex: nv.volumes.indexOf(overlay),
+        parentIndex: nv.volumes.indexOf(image),
+        overlayLevel: overlay.getCurrentLevelIndex(),
+        parentLevel: image.getCurrentLevelIndex(),
+      }
+      image.removeLabelOverlay(overlay)
+      return {
+        ...loaded,
+        overlaysAfterRemove: image.getLabelOverlays().length,
+        inNiivueAfterRemove: nv.volumes.includes(overlay),
+      }
+    })
+
+    expect(result.isLabelImage).toBe(true)
+    expect(result.labelName).toBe("nucleus")
+    expect(result.overlays).toBe(1)
+    expect(result.volumeIndex).toBeGreaterThan(result.parentIndex)
+    expect(result.overlayLevel).toBe(result.parentLevel)
+    expect(result.overlaysAfterRemove).toBe(0)
+    expect(result.inNiivueAfterRemove).toBe(false)
+  })
+
+  test("the overlay follows clip changes and time navigation", async ({
+    page,
+  }) => {
+    await page.evaluate(async () => {
+      const image = (window as any).image
+      await image.addLabelOverlay("labels/nuclei")
+      // Keep the x >= 16 half (world x = voxel x)
+      const { min, max } = image.getVolumeBounds()
+      image.setClipBox({ min: [16, min[1], min[2]], max })
+      await image.waitForIdle()
+    })
+    const clipped = await overlayState(page)
+    expect(clipped.overlay).toEqual(clipped.image)
+    expect(clipped.image.dims[0]).toBe(16)
+    expect(clipped.firstLabel).toBe(11)
+
+    await page.evaluate(async () => {
+      const image = (window as any).image
+      await image.setTimeIndex(2)
+      await image.waitForIdle()
+    })
+    const frame2 = await overlayState(page)
+    expect(frame2.overlay).toEqual(frame2.image)
+    expect(frame2.overlay.timeIndex).toBe(2)
+    expect(frame2.firstLabel).toBe(13)
+
+    // Revisiting a cached frame reloads the overlay in the background
+    await page.evaluate(async () => {
+      const image = (window as any).image
+      await image.setTimeIndex(0)
+      await image.waitForIdle()
+    })
+    const frame0 = await overlayState(page)
+    expect(frame0.overlay).toEqual(frame0.image)
+    expect(frame0.firstLabel).toBe(11)
+  })
+
+  test("stale overlay loads never replace the latest time index", async ({
+    page,
+  }) => {
+    await page.evaluate(async () => {
+      const image = (window as any).image
+      await image.addLabelOverlay("labels/nuclei")
+      // Request three frames without waiting; only frame 3 may land
+      await Promise.all([
+        image.setTimeIndex(1),
+        image.setTimeIndex(2),
+        image.setTimeIndex(3),
+      ])
+      await image.waitForIdle()
+    })
+
+    const state = await overlayState(page)
+    expect(state.image.timeIndex).toBe(3)
+    expect(state.overlay).toEqual(state.image)
+    expect(state.firstLabel).toBe(4)
+  })
+
+  test("pickLabel reads the overlay label at full resolution", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const overlay = await image.addLabelOverlay("labels/nuclei")
+      // Voxel [z, y, x] = [3, 4, 21] of frame 0
+      const pick = await overlay.pickLabel([21, 4, 3])
+      image.removeLabelOverlay(overlay)
+      return pick
+    })
+
+    expect(result.label).toBe(11)
+    expect(result.voxel).toEqual([3, 4, 21])
+    expect(result.name).toBe("nucleus")
+    expect(result.properties).toEqual({ name: "nucleus" })
+  })
+})
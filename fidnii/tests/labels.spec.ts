@@ -0,0 +1,341 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import { expect, test } from "@playwright/test"
+
+test.describe("Label Metadata", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+  })
+
+  test("parseImageLabelMetadata resolves names and colors", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(() => {
+      const { parseImageLabelMetadata } = (window as any).fidnii
+      const info = parseImageLabelMetadata({
+        colors: [
+          { "label-value": 1, rgba: [255, 0, 0, 128] },
+          { "label-value": 2, rgba: [0, 255, 0] },
+          { "label-value": 3, rgba: "invalid" },
+        ],
+        properties: [
+          { "label-value": 1, name: "nucleus", area: 12 },
+          { "label-value": 3, class: "membrane" },
+          { "label-value": 4, area: 7 },
+        ],
+      })
+      return Object.fromEntries(info)
+    })
+
+    expect(result).toEqual({
+      1: { rgba: [255, 0, 0, 128], name: "nucleus" },
+      2: { rgba: [0, 255, 0, 255] },
+      3: { name: "membrane" },
+    })
+  })
+
+  test("getLabelProperties collects a label's custom fields", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(() => {
+      const { getLabelProperties } = (window as any).fidnii
+      const imageLabel = {
+        properties: [
+          { "label-value": 1, name: "nucleus", area: 12 },
+          { "label-value": 1, "mean-intensity": 340 },
+          { "label-value": 2, name: "membrane" },
+        ],
+      }
+      return {
+        nucleus: getLabelProperties(imageLabel, 1),
+        missing: getLabelProperties(imageLabel, 5),
+      }
+    })
+
+    expect(result.nucleus).toEqual({
+      name: "nucleus",
+      area: 12,
+      "mean-intensity": 340,
+    })
+    expect(result.missing).toEqual({})
+  })
+
+  test("images without image-label metadata have no label info", async ({
+    page,
+  }) => {
+    const size = await page.evaluate(() => (window as any).image.labelInfo.size)
+    expect(size).toBe(0)
+  })
+
+  test("non-label images assign no label colors", async ({ page }) => {
+    const size = await page.evaluate(
+      () => (window as any).image.labelColors.size,
+    )
+    expect(size).toBe(0)
+  })
+
+  test("label visibility methods reject non-label images", async ({ page }) => {
+    const errors = await page.evaluate(() => {
+      const image = (window as any).image
+      const messages: string[] = []
+      for (const call of [
+        () => image.setLabelVisibility([1], false),
+        () => image.setLabelOpacity(1, 0.5),
+        () => image.setLabelOpacity(1, 1.5),
+        () => image.isolateLabels([1]),
+      ]) {
+        try {
+          call()
+        } catch (err) {
+          messages.push((err as Error).message)
+        }
+      }
+      return messages
+    })
+
+    expect(errors).toEqual([
+      "Not a label image",
+      "Not a label image",
+      "Invalid label opacity: 1.5 (expected 0 to 1)",
+      "Not a label image",
+    ])
+  })
+
+  test("pickLabel rejects non-label images", async ({ page }) => {
+    const message = await page.evaluate(async () => {
+      const image = (window as any).image
+      try {
+        await image.pickLabel([0, 0, 0])
+        return null
+      } catch (err) {
+        return (err as Error).message
+      }
+    })
+    expect(message).toBe("Not a label image")
+  })
+})
+
+test.describe("Label Colors", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+  })
+
+  test("label colors are stable across levels and slab loads", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      // 4×4-voxel label blocks, plus labels 200..203 on odd voxels, which
+      // only exist at level 0
+      const multiscales = await createTestMultiscales({
+        shape: [16, 32, 32],
+        levels: 2,
+        dtype: "uint8",
+        value: ([z, y, x]: number[]) =>
+          z % 2 && y % 2 && x % 2
+            ? 200 + Math.floor(x / 8)
+            : 1 + Math.floor(x / 4) + 8 * Math.floor(y / 8),
+        imageLabel: { colors: [{ "label-value": 1, rgba: [10, 20, 30, 255] }] },
+      })
+
+      const snapshots: { source: string; colors: [number, number[]][] }[] = []
+      let slabLoaded!: Promise<void>
+      const image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales, labelImage: true },
+        (image: any) => {
+          const snapshot = (source: string) =>
+            snapshots.push({
+              source,
+              colors: [...image.labelColors].map(([label, rgba]) => [
+                label,
+                [...rgba],
+              ]),
+            })
+          image.addEventListener("loadingComplete", (e: any) =>
+            snapshot(`level-${e.detail.levelIndex}`),
+          )
+          slabLoaded = new Promise<void>((resolve) =>
+            image.addEventListener("slabLoadingComplete", (e: any) => {
+              snapshot(`slab-${e.detail.levelIndex}`)
+              resolve()
+            }),
+          )
+        },
+      )
+      await slabLoaded
+      await image.waitForIdle()
+      return snapshots
+    })
+
+    const sources = result.map((s) => s.source)
+    expect(sources).toContain("level-1")
+    expect(sources).toContain("level-0")
+    expect(sources.some((s) => s.startsWith("slab-"))).toBe(true)
+    expect(sources.indexOf("level-1")).toBeLessThan(sources.indexOf("level-0"))
+
+    // Every color, once assigned, is kept by all later loads
+    for (let i = 1; i < result.length; i++) {
+      const later = new Map(result[i].colors)
+      for (const [label, rgba] of result[i - 1].colors) {
+        expect(later.get(label), `${result[i].source}: ${label}`).toEqual(rgba)
+      }
+    }
+
+    const preview = new Map(result[sources.indexOf("level-1")].colors)
+    const target = new Map(result[sources.indexOf("level-0")].colors)
+    expect(preview.get(1)).toEqual([10, 20, 30, 255])
+    expect(preview.has(200)).toBe(false)
+    expect(target.has(200)).toBe(true)
+  })
+
+  test("label visibility and opacity change the colormap alpha only", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      // Labels 1..4 in 4-voxel bands along x; label 2 is half transparent
+      const multiscales = await createTestMultiscales({
+        shape: [16, 16, 16],
+        dtype: "uint8",
+        value: ([, , x]: number[]) => 1 + Math.floor(x / 4),
+        imageLabel: { colors: [{ "label-value": 2, rgba: [0, 255, 0, 128] }] },
+      })
+      const image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales, labelImage: true },
+      )
+      await image.waitForIdle()
+
+      let fetches = 0
+      const coalescer = image.coalescer
+      for (const method of ["fetchRegion", "fetchChunks"]) {
+        const original = coalescer[method].bind(coalescer)
+        coalescer[method] = (...args: any[]) => {
+          fetches++
+          return original(...args)
+        }
+      }
+
+      // Alpha of labels 1..4 in the 3D volume and the axial slab
+      const alphas = () =>
+        [image, image.getSlabBufferState(0).nvImage].map((nvImage: any) => {
+          const { lut, min } = nvImage.colormapLabel
+          return [1, 2, 3, 4].map((label) => lut[(label - min) * 4 + 3])
+        })
+      const steps: Record<string, number[][]> = { initial: alphas() }
+      image.setLabelVisibility([3], false)
+      steps.hidden = alphas()
+      image.setLabelOpacity(2, 0.5)
+      image.setLabelOpacity(4, 0.25)
+      steps.opacity = alphas()
+      image.isolateLabels([2, 4])
+      steps.isolated = alphas()
+      image.setLabelVisibility([1], true)
+      steps.isolatedShown = alphas()
+      image.isolateLabels(null)
+      steps.all = alphas()
+      await image.waitForIdle()
+      return { steps, fetches }
+    })
+
+    const both = (alpha: number[]) => [alpha, alpha]
+    expect(result.steps).toEqual({
+      initial: both([255, 128, 255, 255]),
+      hidden: both([255, 128, 0, 255]),
+      opacity: both([255, 64, 0, 64]),
+      isolated: both([0, 64, 0, 64]),
+      isolatedShown: both([255, 64, 0, 64]),
+      // Showing all labels clears the hidden set, keeping opacities
+      all: both([255, 64, 255, 64]),
+    })
+    expect(result.fetches).toBe(0)
+  })
+
+  test("labels first seen in a cached time frame are colored", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      // Label 50 only exists in frame 1, which is pre-fetched into the
+      // time frame cache while frame 0 is shown
+      const multiscales = await createTestMultiscales({
+        shape: [2, 16, 16, 16],
+        dims: ["t", "z", "y", "x"],
+        dtype: "uint8",
+        value: ([t, , , x]: number[]) => (t === 1 && x < 8 ? 50 : 1),
+      })
+      const image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales, labelImage: true, timePrefetchCount: 1 },
+      )
+      await image.waitForIdle()
+      const before = image.labelColors.has(50)
+
+      const timeChange = new Promise<any>((resolve) =>
+        image.addEventListener("timeChange", (e: any) => resolve(e.detail), {
+          once: true,
+        }),
+      )
+      await image.setTimeIndex(1)
+      const { cached } = await timeChange
+      const { lut, min } = image.colormapLabel
+      return {
+        before,
+        cached,
+        color: image.labelColors.get(50),
+        lutColor: Array.from(lut.slice((50 - min) * 4, (50 - min) * 4 + 4)),
+      }
+    })
+
+    expect(result.before).toBe(false)
+    expect(result.cached).toBe(true)
+    expect(result.color).toBeDefined()
+    expect(result.lutColor).toEqual(result.color)
+  })
+
+  test("label colors are seeded within the pixel budget", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const multiscales = await createTestMultiscales({
+        shape: [16, 32, 32],
+        levels: 2,
+        dtype: "uint8",
+        value: ([, , x]: number[]) => 1 + Math.floor(x / 4),
+      })
+      // Time indices of the seed fetches
+      const load = async (maxPixels: number) => {
+        const seeds: number[] = []
+        await loadTestImage(
+          (window as any).nv,
+          (window as any).nv2,
+          { multiscales, labelImage: true, maxPixels },
+          (image: any) => {
+            const coalescer = image.coalescer
+            const fetchRegion = coalescer.fetchRegion.bind(coalescer)
+            coalescer.fetchRegion = (...args: any[]) => {
+              if (args[3] === "label-seed") seeds.push(args[4])
+              return fetchRegion(...args)
+            }
+          },
+        )
+        return seeds
+      }
+      // The lowest level has 8 × 16 × 16 = 2048 voxels
+      return { within: await load(4096), over: await load(1024) }
+    })
+
+    expect(result.within).toEqual([0])
+    expect(result.over).toEqual([])
+  })
+})
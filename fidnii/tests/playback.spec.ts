@@ -0,0 +1,128 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import { expect, test } from "@playwright/test"
+
+test.describe("Time-lapse Playback", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+    // Six time points; every voxel of frame t has the value 1000 * t + x
+    await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const multiscales = await createTestMultiscales({
+        shape: [6, 16, 16, 16],
+        dims: ["t", "z", "y", "x"],
+        value: ([t, , , x]: number[]) => 1000 * t + x,
+      })
+      ;(window as any).image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales },
+      )
+    })
+  })
+
+  test("plays a non-looping range to the end", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const started = new Promise<any>((resolve) =>
+        image.addEventListener("playbackStart", (e: any) => resolve(e.detail), {
+          once: true,
+        }),
+      )
+      const stopped = new Promise<any>((resolve) =>
+        image.addEventListener("playbackStop", (e: any) => resolve(e.detail), {
+          once: true,
+        }),
+      )
+      image.play({ fps: 20, loop: false, range: [0, 4] })
+      const start = await started
+      const stop = await stopped
+      return {
+        start,
+        stop,
+        timeIndex: image.timeIndex,
+        isPlaying: image.isPlaying,
+        // First voxel of the 3D buffer: x = 0 of the displayed frame
+        firstVoxel: image.img[0],
+      }
+    })
+
+    expect(result.start).toMatchObject({ index: 0, fps: 20, range: [0, 4] })
+    expect(result.stop.reason).toBe("ended")
+    expect(result.stop.index).toBe(4)
+    // Every frame was loaded before playback moved on
+    expect(result.stop.framesShown).toBe(4)
+    expect(result.timeIndex).toBe(4)
+    expect(result.isPlaying).toBe(false)
+    expect(result.firstVoxel).toBe(4000)
+  })
+
+  test("pause keeps the current frame", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const stopped = new Promise<any>((resolve) =>
+        image.addEventListener("playbackStop", (e: any) => resolve(e.detail), {
+          once: true,
+        }),
+      )
+      image.play({ fps: 5 })
+      await new Promise((resolve) => setTimeout(resolve, 500))
+      image.pause()
+      const stop = await stopped
+      // Give an aborted frame interval time to (not) advance playback
+      await new Promise((resolve) => setTimeout(resolve, 400))
+      return { stop, timeIndex: image.timeIndex, isPlaying: image.isPlaying }
+    })
+
+    expect(result.stop.reason).toBe("paused")
+    expect(result.isPlaying).toBe(false)
+    expect(result.timeIndex).toBe(result.stop.index)
+  })
+
+  test("stop returns to the start of the range", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const stopped = new Promise<any>((resolve) =>
+        image.addEventListener("playbackStop", (e: any) => resolve(e.detail), {
+          once: true,
+        }),
+      )
+      image.play({ fps: 10, range: [1, 5] })
+      await new Promise((resolve) => setTimeout(resolve, 400))
+      await image.stop()
+      return {
+        stop: await stopped,
+        timeIndex: image.timeIndex,
+        firstVoxel: image.img[0],
+      }
+    })
+
+    expect(result.stop.reason).toBe("stopped")
+    expect(result.timeIndex).toBe(1)
+    expect(result.firstVoxel).toBe(1000)
+  })
+
+  test("counts dropped frames when loads overrun the frame rate", async ({
+    page,
+  }) => {
+    const stop = await page.evaluate(async () => {
+      const image = (window as any).image
+      const stopped = new Promise<any>((resolve) =>
+        image.addEventListener("playbackStop", (e: any) => resolve(e.detail), {
+          once: true,
+        }),
+      )
+      // A 1 ms frame interval is shorter than any frame load
+      image.play({ fps: 1000, loop: false })
+      return stopped
+    })
+
+    expect(stop.reason).toBe("ended")
+    expect(stop.framesShown).toBe(5)
+    expect(stop.droppedFrames).toBeGreaterThan(0)
+  })
+})
@@ -782,6 +782,36 @@ test.describe("RGB Support — buildSelection", () => {
     ])
   })
 
+  test("selects a single channel [t, c, z, y, x]", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const region = {
+        start: [5, 10, 20] as [number, number, number],
+        end: [15, 50, 60] as [number, number, number],
+      }
+      const selection = window.fidnii.buildSelection(
+        ["t", "c", "z", "y", "x"],
+        region,
+        3,
+        2,
+      )
+      return selection.map((s: any) =>
+        s === null
+          ? "null"
+          : typeof s === "number"
+            ? s
+            : { start: s.start, stop: s.stop },
+      )
+    })
+
+    expect(result).toEqual([
+      3, // t → timeIndex
+      2, // c → channelIndex
+      { start: 5, stop: 15 }, // z → region[0]
+      { start: 10, stop: 50 }, // y → region[1]
+      { start: 20, stop: 60 }, // x → region[2]
+    ])
+  })
+
   test("unknown dims get null selection", async ({ page }) => {
     const result = await page.evaluate(() => {
       const region = {
@@ -0,0 +1,103 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import { expect, test } from "@playwright/test"
+
+test.describe("Slab time navigation", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+    // Four time points; every voxel of frame t has the value 1000 * t + x.
+    // nv2 shows the axial slab.
+    await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const multiscales = await createTestMultiscales({
+        shape: [4, 16, 16, 16],
+        dims: ["t", "z", "y", "x"],
+        value: ([t, , , x]: number[]) => 1000 * t + x,
+      })
+      const image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales, timePrefetchCount: 0 },
+      )
+      await image.waitForIdle()
+      ;(window as any).image = image
+
+      // Record the requester IDs of all coalescer fetches
+      const requests: string[] = []
+      const coalescer = image.coalescer
+      for (const method of ["fetchRegion", "fetchChunks"]) {
+        const original = coalescer[method].bind(coalescer)
+        coalescer[method] = (...args: any[]) => {
+          requests.push(method === "fetchRegion" ? args[3] : args[4])
+          return original(...args)
+        }
+      }
+      ;(window as any).requests = requests
+    })
+  })
+
+  test("reloads the slab buffer for the new time index", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const requests: string[] = (window as any).requests
+      const before = image.getSlabBufferState(0).nvImage.img[0]
+      const slabLoaded = new Promise<any>((resolve) =>
+        image.addEventListener(
+          "slabLoadingComplete",
+          (e: any) => resolve(e.detail),
+          { once: true },
+        ),
+      )
+      await image.setTimeIndex(2)
+      const event = await slabLoaded
+      await image.waitForIdle()
+      return {
+        before,
+        after: image.getSlabBufferState(0).nvImage.img[0],
+        trigger: event.trigger,
+        slabRequests: requests.filter((id) => id.startsWith("slab-")).length,
+      }
+    })
+
+    // First voxel of each slab row is x = 0 of the displayed frame
+    expect(result.before).toBe(0)
+    expect(result.after).toBe(2000)
+    expect(result.trigger).toBe("timeChanged")
+    expect(result.slabRequests).toBeGreaterThan(0)
+  })
+
+  test("serves revisited slab frames from the cache", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const requests: string[] = (window as any).requests
+      const slabRequests = () =>
+        requests.filter((id) => id.startsWith("slab-")).length
+
+      await image.setTimeIndex(1)
+      await image.waitForIdle()
+      const afterMiss = slabRequests()
+
+      // t0 (initial load) and t1 are both cached now
+      await image.setTimeIndex(0)
+      await image.waitForIdle()
+      const t0Voxel = image.getSlabBufferState(0).nvImage.img[0]
+      await image.setTimeIndex(1)
+      await image.waitForIdle()
+      return {
+        afterMiss,
+        afterHits: slabRequests(),
+        t0Voxel,
+        t1Voxel: image.getSlabBufferState(0).nvImage.img[0],
+      }
+    })
+
+    expect(result.afterMiss).toBeGreaterThan(0)
+    expect(result.afterHits).toBe(result.afterMiss)
+    expect(result.t0Voxel).toBe(0)
+    expect(result.t1Voxel).toBe(1000)
+  })
+})
@@ -0,0 +1,88 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import { expect, test } from "@playwright/test"
+
+test.describe("Region Statistics", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+  })
+
+  test("computeStatistics summarizes a region", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const progress: { loaded: number; total: number }[] = []
+      image.addEventListener("statisticsProgress", (e: any) =>
+        progress.push(e.detail),
+      )
+      const stats = await image.computeStatistics({
+        levelIndex: image.getNumLevels() - 1,
+        bins: 64,
+      })
+      const histogramTotal = stats.histogram.counts.reduce(
+        (a: number, b: number) => a + b,
+        0,
+      )
+      return {
+        count: stats.count,
+        min: stats.min,
+        max: stats.max,
+        mean: stats.mean,
+        std: stats.std,
+        median: stats.percentiles[50],
+        bins: stats.histogram.counts.length,
+        edges: stats.histogram.edges.length,
+        histogramTotal,
+        lastProgress: progress[progress.length - 1],
+      }
+    })
+
+    expect(result.count).toBeGreaterThan(0)
+    expect(result.min).toBeLessThanOrEqual(result.mean)
+    expect(result.mean).toBeLessThanOrEqual(result.max)
+    expect(result.std).toBeGreaterThanOrEqual(0)
+    expect(result.median).toBeGreaterThanOrEqual(result.min)
+    expect(result.median).toBeLessThanOrEqual(result.max)
+    expect(result.bins).toBe(64)
+    expect(result.edges).toBe(65)
+    expect(result.histogramTotal).toBe(result.count)
+    expect(result.lastProgress.loaded).toBe(result.lastProgress.total)
+  })
+
+  test("computeStatistics counts only voxels inside clip planes", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      const { min, max } = image.getVolumeBounds()
+      const center = [0, 1, 2].map((i) => (min[i] + max[i]) / 2)
+      const levelIndex = image.getNumLevels() - 1
+      const full = await image.computeStatistics({ levelIndex })
+      const half = await image.computeStatistics({
+        levelIndex,
+        clipPlanes: [{ point: center, normal: [1, 0, 0] }], // Keep +X side
+      })
+      return { full: full.count, half: half.count }
+    })
+
+    expect(result.half).toBeGreaterThan(0)
+    expect(result.half).toBeLessThan(result.full)
+  })
+
+  test("computeStatistics honors an aborted signal", async ({ page }) => {
+    const name = await page.evaluate(async () => {
+      const image = (window as any).image
+      const controller = new AbortController()
+      controller.abort()
+      return image.computeStatistics({ signal: controller.signal }).then(
+        () => null,
+        (err: Error) => err.name,
+      )
+    })
+
+    expect(name).toBe("AbortError")
+  })
+})
@@ -0,0 +1,172 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import type { Page } from "@playwright/test"
+import { expect, test } from "@playwright/test"
+
+/**
+ * Load a 6-frame, 2-level 16³ uint16 fixture (8 KiB per level-0 frame)
+ * without the slab view, so only 3D frames enter the time frame cache.
+ */
+async function loadTimeFixture(
+  page: Page,
+  options: Record<string, unknown>,
+): Promise<void> {
+  await page.evaluate(async (options) => {
+    const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+    const multiscales = await createTestMultiscales({
+      shape: [6, 16, 16, 16],
+      dims: ["t", "z", "y", "x"],
+      levels: 2,
+      value: ([t, , , x]: number[]) => 1000 * t + x,
+    })
+    const image = await loadTestImage((window as any).nv, (window as any).nv2, {
+      multiscales,
+      timePrefetchCount: 0,
+      ...options,
+    })
+    image.detachNiivue((window as any).nv2)
+    await image.loadLevel(0)
+    await image.waitForIdle()
+    ;(window as any).image = image
+    // Switch frames and report whether the switch was a cache hit
+    ;(window as any).visit = async (t: number) => {
+      const cached = new Promise<boolean>((resolve) =>
+        image.addEventListener(
+          "timeChange",
+          (e: any) => resolve(e.detail.cached),
+          { once: true },
+        ),
+      )
+      await image.setTimeIndex(t)
+      return cached
+    }
+  }, options)
+}
+
+test.describe("Time frame cache", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+  })
+
+  test("evicts least recently used frames beyond the byte budget", async ({
+    page,
+  }) => {
+    // Room for two level-0 frames
+    await loadTimeFixture(page, { timeFrameCacheBytes: 2 * 8192 })
+    const result = await page.evaluate(async () => {
+      const visit = (window as any).visit
+      const image = (window as any).image
+      return {
+        t1: await visit(1),
+        t2: await visit(2), // evicts t0
+        t0: await visit(0), // evicts t1
+        backToT2: await visit(2),
+        backToT1: await visit(1),
+        firstVoxel: image.img[0],
+      }
+    })
+
+    expect(result).toEqual({
+      t1: false,
+      t2: false,
+      t0: false,
+      backToT2: true,
+      backToT1: false,
+      firstVoxel: 1000,
+    })
+  })
+
+  test("keys frames by resolution level and region", async ({ page }) => {
+    await loadTimeFixture(page, {})
+    const result = await page.evaluate(async () => {
+      const visit = (window as any).visit
+      const image = (window as any).image
+      const hits: Record<string, boolean> = {}
+
+      // Level 0, full region: cache t1
+      hits.level0T1 = await visit(1)
+      hits.level0T0 = await visit(0)
+
+      // t1 was only cached at level 0
+      await image.loadLevel(1)
+      await image.waitForIdle()
+      hits.level1T1 = await visit(1)
+
+      // Back at level 0, t0 is reused
+      await image.loadLevel(0)
+      await image.waitForIdle()
+      hits.level0T0Again = await visit(0)
+
+      // A smaller region (the first z chunk) does not reuse full-region
+      // frames
+      const { min, max } = image.getVolumeBounds()
+      image.setClipBox({
+        min,
+        max: [max[0], max[1], min[2] + (max[2] - min[2]) / 4],
+      })
+      await image.waitForIdle()
+      hits.clippedT1 = await visit(1)
+
+      // Restoring the full region reuses its frames again
+      image.setClipBox({ min, max })
+      await image.waitForIdle()
+      hits.fullT0 = await visit(0)
+      return hits
+    })
+
+    expect(result).toEqual({
+      level0T1: false,
+      level0T0: true,
+      level1T1: false,
+      level0T0Again: true,
+      clippedT1: false,
+      fullT0: true,
+    })
+  })
+
+  test("disables the cache with a budget of 0", async ({ page }) => {
+    await loadTimeFixture(page, { timeFrameCacheBytes: 0 })
+    const result = await page.evaluate(async () => {
+      const visit = (window as any).visit
+      return [await visit(1), await visit(0), await visit(1)]
+    })
+
+    expect(result).toEqual([false, false, false])
+  })
+
+  test("rejects an invalid budget", async ({ page }) => {
+    const errors = await page.evaluate(async () => {
+      const { createTestMultiscales, OMEZarrNVImage } = (window as any).fidnii
+      const multiscales = await createTestMultiscales({
+        shape: [2, 8, 8, 8],
+        dims: ["t", "z", "y", "x"],
+        value: () => 0,
+      })
+      const messages: string[] = []
+      for (const bytes of [-1, 1.5, Number.NaN]) {
+        try {
+          await OMEZarrNVImage.create({
+            multiscales,
+            niivue: (window as any).nv,
+            autoLoad: false,
+            timeFrameCacheBytes: bytes,
+          })
+          messages.push("created")
+        } catch (err) {
+          messages.push((err as Error).message)
+        }
+      }
+      return messages
+    })
+
+    expect(errors).toEqual([
+      "Invalid timeFrameCacheBytes: -1 (expected a non-negative integer)",
+      "Invalid timeFrameCacheBytes: 1.5 (expected a non-negative integer)",
+      "Invalid timeFrameCacheBytes: NaN (expected a non-negative integer)",
+    ])
+  })
+})
@@ -0,0 +1,69 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import { expect, test } from "@playwright/test"
+
+test.describe("Time Course", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+    // More time points than one fetch batch; voxel value is 1000 * t + x
+    await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const multiscales = await createTestMultiscales({
+        shape: [20, 16, 16, 16],
+        dims: ["t", "z", "y", "x"],
+        value: ([t, , , x]: number[]) => 1000 * t + x,
+      })
+      ;(window as any).image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales },
+      )
+    })
+  })
+
+  test("matches getValueAtWorld at every time point", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const image = (window as any).image
+      // Voxel (z, y, x) = (4, 5, 6)
+      const world: [number, number, number] = [6, 5, 4]
+      const course = Array.from(
+        (await image.getTimeCourse(world)) as Float64Array,
+      )
+      const samples: Record<number, number> = {}
+      for (const t of [0, 7, 8, 19]) {
+        samples[t] = await image.getValueAtWorld(world, {
+          levelIndex: 0,
+          timeIndex: t,
+        })
+      }
+      return { course, samples }
+    })
+
+    expect(result.course).toHaveLength(20)
+    for (const [t, value] of Object.entries(result.samples)) {
+      expect(result.course[Number(t)]).toBe(value)
+    }
+    expect(result.course).toEqual(
+      Array.from({ length: 20 }, (_, t) => 1000 * t + 6),
+    )
+  })
+
+  test("returns only the requested range", async ({ page }) => {
+    const course = await page.evaluate(async () => {
+      const image = (window as any).image
+      return Array.from(
+        (await image.getTimeCourse([6, 5, 4], {
+          tRange: [3, 12],
+        })) as Float64Array,
+      )
+    })
+
+    expect(course).toEqual(
+      Array.from({ length: 10 }, (_, i) => 1000 * (i + 3) + 6),
+    )
+  })
+})
@@ -0,0 +1,96 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import { expect, test } from "@playwright/test"
+
+test.describe("Time range — BufferManager frames", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+  })
+
+  test("allocates one frame by default", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const bm = new window.fidnii.BufferManager(1_000_000, "uint16")
+      const arr = bm.resize([4, 10, 10])
+      return {
+        frameCount: bm.getFrameCount(),
+        pixelCount: bm.getPixelCount(),
+        typedArrayLength: arr.length,
+      }
+    })
+
+    expect(result.frameCount).toBe(1)
+    expect(result.pixelCount).toBe(400)
+    expect(result.typedArrayLength).toBe(400)
+  })
+
+  test("allocates consecutive frames for 4D data", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const bm = new window.fidnii.BufferManager(1_000_000, "float32")
+      const arr = bm.resize([4, 10, 10], 5)
+      return {
+        frameCount: bm.getFrameCount(),
+        pixelCount: bm.getPixelCount(),
+        elementCount: bm.getElementCount(),
+        typedArrayLength: arr.length,
+        dimensions: bm.getDimensions(),
+      }
+    })
+
+    expect(result.frameCount).toBe(5)
+    // Spatial pixel count excludes frames
+    expect(result.pixelCount).toBe(400)
+    expect(result.elementCount).toBe(2_000)
+    expect(result.typedArrayLength).toBe(2_000)
+    expect(result.dimensions).toEqual([4, 10, 10])
+  })
+
+  test("shrinking back to one frame shortens the view", async ({ page }) => {
+    const result = await page.evaluate(() => {
+      const bm = new window.fidnii.BufferManager(1_000_000, "uint8")
+      bm.resize([2, 8, 8], 3)
+      const arr = bm.resize([2, 8, 8])
+      return { frameCount: bm.getFrameCount(), length: arr.length }
+    })
+
+    expect(result).toEqual({ frameCount: 1, length: 128 })
+  })
+})
+
+test.describe("Time range — NiiVue frame controls", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+  })
+
+  test("reloads keep a frame chosen with NiiVue's 4D controls", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const nv = (window as any).nv
+      const multiscales = await createTestMultiscales({
+        shape: [4, 16, 16, 16],
+        dims: ["t", "z", "y", "x"],
+        value: ([t]: number[]) => 100 * t,
+      })
+      const image = await loadTestImage(nv, (window as any).nv2, {
+        multiscales,
+        timeRange: [0, 3],
+      })
+      ;(window as any).image = image
+
+      nv.setFrame4D(image.id, 2)
+      // A clip plane change reloads the volume
+      const { min, max } = image.getVolumeBounds()
+      image.setClipBox({ min, max: [max[0], max[1], (min[2] + max[2]) / 2] })
+      await image.waitForIdle()
+      return { frame4D: image.frame4D, timeIndex: image.timeIndex }
+    })
+
+    expect(result.frame4D).toBe(2)
+    expect(result.timeIndex).toBe(2)
+  })
+})
@@ -0,0 +1,125 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import type { Page } from "@playwright/test"
+import { expect, test } from "@playwright/test"
+
+/**
+ * Move the crosshair of the 3D view to a voxel `[x, y]` of the displayed
+ * 2D buffer and wait for the first event of `type` from the image.
+ */
+async function probeDisplayedVoxel(
+  page: Page,
+  type: "voxelValue" | "labelHover",
+  xy: [number, number],
+): Promise<any> {
+  return page.evaluate(
+    async ({ type, xy }) => {
+      const image = (window as any).image
+      const nv = (window as any).nv
+      const event = new Promise<any>((resolve) =>
+        image.addEventListener(type, (e: any) => resolve(e.detail), {
+          once: true,
+        }),
+      )
+      // mm of the voxel in the rendered (y-flipped) header
+      const a = image.hdr.affine
+      const mm = [0, 1, 2].map(
+        (r) => a[r][0] * xy[0] + a[r][1] * xy[1] + a[r][3],
+      )
+      nv.scene.crosshairPos = nv.mm2frac(mm)
+      nv.createOnLocationChange()
+      return event
+    },
+    { type, xy },
+  )
+}
+
+test.describe("Voxel probe", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+  })
+
+  test("getValueAtWorld returns a known voxel at each level", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const multiscales = await createTestMultiscales({
+        shape: [16, 32, 32],
+        levels: 2,
+        scale: { z: 2, y: 0.5, x: 0.5 },
+        translation: { z: 30, y: 20, x: 10 },
+        value: ([z, y, x]: number[]) => x + 32 * y + 1024 * z,
+      })
+      const image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales },
+      )
+      return {
+        // Voxel [z, y, x] = [3, 5, 7] of level 0
+        level0: await image.getValueAtWorld([13.5, 22.5, 36]),
+        // Voxel [1, 2, 3] of level 1 is voxel [2, 4, 6] of level 0
+        level1: await image.getValueAtWorld([13, 22, 34], { levelIndex: 1 }),
+      }
+    })
+
+    expect(result.level0).toBe(7 + 32 * 5 + 1024 * 3)
+    expect(result.level1).toBe(6 + 32 * 4 + 1024 * 2)
+  })
+
+  test("voxelValue reports the displayed row of a 2D image", async ({
+    page,
+  }) => {
+    await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      const multiscales = await createTestMultiscales({
+        shape: [32, 32],
+        dims: ["y", "x"],
+        value: ([y, x]: number[]) => x + 32 * y,
+      })
+      ;(window as any).image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales },
+      )
+    })
+
+    const detail = await probeDisplayedVoxel(page, "voxelValue", [5, 3])
+
+    expect(detail.voxel).toEqual([0, 3, 5])
+    expect(detail.value).toBe(5 + 32 * 3)
+    expect(detail.worldCoord[0]).toBeCloseTo(5, 6)
+    expect(detail.worldCoord[1]).toBeCloseTo(3, 6)
+    expect(detail.timeIndex).toBe(0)
+  })
+
+  test("labelHover reports the displayed row of a 2D label image", async ({
+    page,
+  }) => {
+    await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      // One label per row
+      const multiscales = await createTestMultiscales({
+        shape: [32, 32],
+        dims: ["y", "x"],
+        dtype: "uint8",
+        value: ([y]: number[]) => y + 1,
+      })
+      ;(window as any).image = await loadTestImage(
+        (window as any).nv,
+        (window as any).nv2,
+        { multiscales, labelImage: true },
+      )
+    })
+
+    const detail = await probeDisplayedVoxel(page, "labelHover", [5, 3])
+
+    expect(detail.pick.voxel).toEqual([0, 3, 5])
+    expect(detail.pick.label).toBe(4)
+  })
+})
@@ -0,0 +1,136 @@
+// SPDX-FileCopyrightText: Copyright (c) Fideus Labs LLC
+// SPDX-License-Identifier: MIT
+
+import { expect, test } from "@playwright/test"
+
+test.describe("Window Strategies", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/")
+    await expect(page.locator("#status")).toHaveText("Ready", {
+      timeout: 120000,
+    })
+  })
+
+  test("fixed window is applied and locked", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const nv = (window as any).nv
+      const OMEZarrNVImage = (window as any).fidnii.OMEZarrNVImage
+      const first = (window as any).image
+      // A window inside the data range, narrower than the data
+      const start = first.cal_min
+      const end = (first.cal_min + first.cal_max) / 2
+      const image = await OMEZarrNVImage.create({
+        multiscales: first.multiscales,
+        niivue: nv,
+        windowStrategy: "fixed",
+        fixedWindow: [start, end],
+      })
+      await image.waitForIdle()
+      const omeroWindow = image.getOmero().channels[0].window
+      return {
+        start,
+        end,
+        omeroStart: omeroWindow.start,
+        omeroEnd: omeroWindow.end,
+        calMin: image.cal_min,
+        calMax: image.cal_max,
+      }
+    })
+
+    expect(result.omeroStart).toBe(result.start)
+    expect(result.omeroEnd).toBe(result.end)
+    // Locked: not widened to the data range
+    expect(result.calMin).toBe(result.start)
+    expect(result.calMax).toBe(result.end)
+  })
+
+  test("minmax and percentile windows come from the data", async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const nv = (window as any).nv
+      const OMEZarrNVImage = (window as any).fidnii.OMEZarrNVImage
+      const multiscales = (window as any).image.multiscales
+      const minmax = await OMEZarrNVImage.create({
+        multiscales,
+        niivue: nv,
+        windowStrategy: "minmax",
+      })
+      await minmax.waitForIdle()
+      const percentile = await OMEZarrNVImage.create({
+        multiscales,
+        niivue: nv,
+        windowStrategy: "percentile",
+        windowPercentiles: [5, 95],
+        lockWindow: true,
+      })
+      await percentile.waitForIdle()
+      return {
+        minmax: minmax.getOmero().channels[0].window,
+        percentile: percentile.getOmero().channels[0].window,
+        calMin: percentile.cal_min,
+        calMax: percentile.cal_max,
+      }
+    })
+
+    expect(result.minmax.start).toBe(result.minmax.min)
+    expect(result.minmax.end).toBe(result.minmax.max)
+    expect(result.percentile.start).toBeGreaterThanOrEqual(
+      result.percentile.min,
+    )
+    expect(result.percentile.end).toBeLessThanOrEqual(result.percentile.max)
+    expect(result.percentile.start).toBeLessThan(result.percentile.end)
+    expect(result.calMin).toBe(result.percentile.start)
+    expect(result.calMax).toBe(result.percentile.end)
+  })
+
+  test("a locked omero window is not recomputed at the target level", async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const { createTestMultiscales, loadTestImage } = (window as any).fidnii
+      // Odd x voxels are bright and only exist at level 0; the preview
+      // level keeps the even ones (values 0..14)
+      const multiscales = await createTestMultiscales({
+        shape: [16, 16, 16],
+        levels: 2,
+        value: ([, , x]: number[]) => (x % 2 ? 1000 : x),
+      })
+      const load = async (lockWindow: boolean) => {
+        const image = await loadTestImage(
+          (window as any).nv,
+          (window as any).nv2,
+          { multiscales, lockWindow },
+        )
+        await image.waitForIdle()
+        return {
+          levelIndex: image.getCurrentLevelIndex(),
+          window: image.getOmero().channels[0].window,
+          calMax: image.cal_max,
+        }
+      }
+      return { unlocked: await load(false), locked: await load(true) }
+    })
+
+    expect(result.unlocked.levelIndex).toBe(0)
+    expect(result.unlocked.window.max).toBe(1000)
+    expect(result.locked.levelIndex).toBe(0)
+    // Kept from the preview level
+    expect(result.locked.window.max).toBe(14)
+    expect(result.locked.calMax).toBeLessThanOrEqual(14)
+  })
+
+  test("fixed strategy requires a window", async ({ page }) => {
+    const message = await page.evaluate(async () => {
+      const OMEZarrNVImage = (window as any).fidnii.OMEZarrNVImage
+      return OMEZarrNVImage.create({
+        multiscales: (window as any).image.multiscales,
+        niivue: (window as any).nv,
+        windowStrategy: "fixed",
+      }).then(
+        () => null,
+        (err: Error) => err.message,
+      )
+    })
+
+    expect(message).toContain("requires a fixedWindow")
+  })
+})